@@ -1,11 +1,33 @@
-import { copyFileSync, existsSync, mkdirSync, readdirSync } from "node:fs";
-import { homedir } from "node:os";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
+import { existsSync, mkdirSync, readdirSync, rmSync } from "node:fs";
+import { join, relative } from "node:path";
 import { Command } from "commander";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import {
+	type BackupManifestFile,
+	createManifestFile,
+	formatSize,
+	getBackupDir,
+	getBackupFiles,
+	getBackupInfo,
+	getBackupsDir,
+	listBackups,
+	resolveBackupId,
+	selectBackupsToPrune,
+	verifyBackup,
+	writeBackupManifest,
+} from "../utils/backups.ts";
+import {
+	copyDirectory,
+	copyFile,
+	createTimestampId,
+} from "../utils/fs-helper.ts";
+import {
+	getBackupRetention,
+	getModules,
+	getSystemPath,
+	type ModuleDefinition,
+} from "../utils/manifest.ts";
+import { isTextOutput, printReport } from "../utils/report.ts";
+import { printLine } from "../utils/terminal.ts";
 
 interface BackupItem {
 	source: string;
@@ -20,86 +42,44 @@ interface BackupResult {
 	message?: string;
 }
 
-function getHelixBackupItem(backupDir: string): BackupItem {
-	return {
-		source: join(homedir(), ".config", "helix"),
-		destination: join(backupDir, "helix"),
-		type: "directory",
-		name: "helix",
-	};
-}
-
-function getTmuxBackupItem(backupDir: string): BackupItem {
-	return {
-		source: join(homedir(), ".config", "tmux", "tmux.conf"),
-		destination: join(backupDir, "tmux", "tmux.conf"),
-		type: "file",
-		name: "tmux",
-	};
-}
-
-function getBashrcBackupItem(backupDir: string): BackupItem {
-	return {
-		source: join(homedir(), ".bashrc"),
-		destination: join(backupDir, "bashrc"),
-		type: "file",
-		name: "bashrc",
-	};
-}
-
-function getZedBackupItem(backupDir: string): BackupItem {
-	return {
-		source: join(homedir(), ".config", "zed", "settings.json"),
-		destination: join(backupDir, "zed", "settings.json"),
-		type: "file",
-		name: "zed",
-	};
-}
-
-function getOpencodeBackupItem(backupDir: string): BackupItem {
+function getBackupItem(
+	module: ModuleDefinition,
+	backupDir: string,
+): BackupItem {
 	return {
-		source: join(homedir(), ".config", "opencode", "opencode.jsonc"),
-		destination: join(backupDir, "opencode", "opencode.jsonc"),
-		type: "file",
-		name: "opencode",
+		source: getSystemPath(module),
+		destination: join(backupDir, module.repoPath),
+		type: module.type,
+		name: module.name,
 	};
 }
 
-function getBackupItems(backupDir: string): BackupItem[] {
-	return [
-		getHelixBackupItem(backupDir),
-		getTmuxBackupItem(backupDir),
-		getBashrcBackupItem(backupDir),
-		getZedBackupItem(backupDir),
-		getOpencodeBackupItem(backupDir),
-	];
-}
-
-function copyDirectory(src: string, dest: string): void {
-	if (!existsSync(dest)) {
-		mkdirSync(dest, { recursive: true });
+/**
+ * List the files of a backed up item with the path each one was copied from
+ */
+function listCopiedFiles(
+	item: BackupItem,
+): { backupPath: string; source: string }[] {
+	if (item.type === "file") {
+		return [{ backupPath: item.destination, source: item.source }];
 	}
 
-	const entries = readdirSync(src, { withFileTypes: true });
-
-	for (const entry of entries) {
-		// Skip .git directories
-		if (entry.name === ".git") {
-			continue;
-		}
-
-		const srcPath = join(src, entry.name);
-		const destPath = join(dest, entry.name);
-
-		if (entry.isDirectory()) {
-			copyDirectory(srcPath, destPath);
-		} else {
-			copyFileSync(srcPath, destPath);
-		}
-	}
+	return readdirSync(item.destination, { recursive: true, withFileTypes: true })
+		.filter((entry) => entry.isFile())
+		.map((entry) => {
+			const backupPath = join(entry.parentPath, entry.name);
+			return {
+				backupPath,
+				source: join(item.source, relative(item.destination, backupPath)),
+			};
+		});
 }
 
-function performBackup(items: BackupItem[]): BackupResult[] {
+function performBackup(
+	items: BackupItem[],
+	backupDir: string,
+	manifestFiles: BackupManifestFile[],
+): BackupResult[] {
 	const results: BackupResult[] = [];
 
 	for (const item of items) {
@@ -114,16 +94,15 @@ function performBackup(items: BackupItem[]): BackupResult[] {
 			}
 
 			if (item.type === "file") {
-				// Create parent directory if needed
-				const parentDir = dirname(item.destination);
-				if (!existsSync(parentDir)) {
-					mkdirSync(parentDir, { recursive: true });
-				}
-				copyFileSync(item.source, item.destination);
+				copyFile(item.source, item.destination);
 			} else {
 				copyDirectory(item.source, item.destination);
 			}
 
+			for (const { backupPath, source } of listCopiedFiles(item)) {
+				manifestFiles.push(createManifestFile(backupDir, backupPath, source));
+			}
+
 			results.push({
 				name: item.name,
 				success: true,
@@ -144,173 +123,279 @@ function displayBackupResults(
 	results: BackupResult[],
 	backupLocation: string,
 ): void {
+	if (!isTextOutput()) {
+		// Modules that are not on the system are skipped, not failures
+		printReport(
+			"backup",
+			results.map((result) => ({
+				name: result.name,
+				status: result.success ? "passed" : "skipped",
+				message: result.message,
+				details: { ...result, location: backupLocation },
+			})),
+		);
+		return;
+	}
+
 	let backedUpCount = 0;
 	let skippedCount = 0;
 
 	for (const result of results) {
 		if (result.success) {
-			console.log(`\x1b[32m✓\x1b[0m ${result.name}`);
+			printLine(`\x1b[32m✓\x1b[0m ${result.name}`);
 			backedUpCount++;
 		} else {
-			console.log(
+			printLine(
 				`\x1b[33m○\x1b[0m ${result.name}${result.message ? ` (${result.message})` : ""}`,
 			);
 			skippedCount++;
 		}
 	}
 
-	console.log();
-	console.log(
+	printLine();
+	printLine(
 		`\x1b[32m✓ Backup complete!\x1b[0m ${backedUpCount} items backed up, ${skippedCount} skipped`,
 	);
-	console.log(`  Location: ${backupLocation}`);
+	printLine(`  Location: ${backupLocation}`);
 }
 
-export const backupCommand = new Command("backup")
-	.description("Backup current configuration files to a dated folder")
-	.action(() => {
-		console.log("Creating backup...\n");
-
-		// Create backup folder with current date (YYYY-MM-DD)
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0]; // YYYY-MM-DD format
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
-
-		if (existsSync(backupDir)) {
-			console.log(
-				`\x1b[33m⚠ Backup folder already exists: backups/${dateStr}\x1b[0m`,
-			);
-			console.log("Overwriting existing backup...\n");
-		}
+/**
+ * Back up the given modules into a new folder named after the current time
+ */
+function runBackup(modules: ModuleDefinition[]) {
+	const backupsDir = getBackupsDir();
+	const id = createTimestampId(backupsDir);
+	const backupDir = join(backupsDir, id);
+
+	// Create backup directory
+	mkdirSync(backupDir, { recursive: true });
+
+	const items = modules.map((module) => getBackupItem(module, backupDir));
+	const manifestFiles: BackupManifestFile[] = [];
+	const results = performBackup(items, backupDir, manifestFiles);
+	writeBackupManifest(id, manifestFiles);
+	displayBackupResults(results, `backups/${id}`);
+}
 
-		// Create backup directory
-		mkdirSync(backupDir, { recursive: true });
+function listBackupsAction() {
+	const backups = listBackups();
 
-		const items = getBackupItems(backupDir);
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
-	});
+	if (backups.length === 0) {
+		printLine("No backups found.");
+		return;
+	}
 
-// Subcommand: backup all
-backupCommand
-	.command("all")
-	.description("Backup all configurations")
-	.action(() => {
-		console.log("Creating backup...\n");
+	for (const backup of backups) {
+		printLine(
+			`\x1b[1m${backup.id}\x1b[0m  ${backup.date.toLocaleString()}  ${formatSize(backup.size)}`,
+		);
+		printLine(
+			`  ${backup.modules.length > 0 ? backup.modules.join(", ") : "(no known modules)"}`,
+		);
+	}
+}
 
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0];
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
+function showBackupAction(idArg: string) {
+	const id = resolveBackupId(idArg);
+	if (!id) {
+		printLine(`\x1b[31m✗ Backup ${idArg} not found\x1b[0m`);
+		process.exit(1);
+	}
 
-		if (existsSync(backupDir)) {
-			console.log(
-				`\x1b[33m⚠ Backup folder already exists: backups/${dateStr}\x1b[0m`,
-			);
-			console.log("Overwriting existing backup...\n");
+	const backup = getBackupInfo(id);
+	const files = getBackupFiles(id);
+
+	printLine(`\x1b[1mBackup ${backup.id}\x1b[0m`);
+	printLine(`  Created: ${backup.date.toLocaleString()}`);
+	printLine(`  Size: ${formatSize(backup.size)}`);
+	printLine();
+
+	for (const module of getModules()) {
+		const moduleFiles = files.filter(
+			(file) =>
+				file.path === module.repoPath ||
+				file.path.startsWith(`${module.repoPath}/`),
+		);
+		if (moduleFiles.length === 0) {
+			continue;
 		}
 
-		mkdirSync(backupDir, { recursive: true });
+		printLine(`\x1b[32m✓\x1b[0m ${module.name}`);
+		for (const file of moduleFiles) {
+			printLine(`  ${file.path} (${formatSize(file.size)})`);
+		}
+	}
+}
 
-		const items = getBackupItems(backupDir);
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
-	});
+/**
+ * Parse a --keep-* flag, which must be a whole number of backups
+ */
+function parseKeepCount(
+	value: string | undefined,
+	flag: string,
+): number | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!/^\d+$/.test(value)) {
+		printLine(
+			`\x1b[31m✗ ${flag} must be a whole number, got '${value}'\x1b[0m`,
+		);
+		process.exit(1);
+	}
+	return Number.parseInt(value, 10);
+}
 
-// Subcommand: backup helix
-backupCommand
-	.command("helix")
-	.alias("hx")
-	.description("Backup Helix configuration")
-	.action(() => {
-		console.log("Creating Helix backup...\n");
+function pruneBackupsAction(options: {
+	keepLast?: string;
+	keepDaily?: string;
+	dryrun?: boolean;
+}) {
+	// Flags replace the retention policy from dotfiles.json as a whole
+	const useFlags =
+		options.keepLast !== undefined || options.keepDaily !== undefined;
+	const retention = useFlags
+		? {
+				keepLast: parseKeepCount(options.keepLast, "--keep-last"),
+				keepDaily: parseKeepCount(options.keepDaily, "--keep-daily"),
+			}
+		: getBackupRetention();
+	const { keepLast, keepDaily } = retention;
+
+	if (keepLast === undefined && keepDaily === undefined) {
+		printLine(
+			"\x1b[31m✗ Specify --keep-last and/or --keep-daily (or set backupRetention in dotfiles.json)\x1b[0m",
+		);
+		process.exit(1);
+	}
 
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0];
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
+	const toPrune = selectBackupsToPrune(listBackups(), keepLast, keepDaily);
 
-		mkdirSync(backupDir, { recursive: true });
+	printLine(
+		`Pruning backups (keeping last ${keepLast ?? 0}, daily ${keepDaily ?? 0})${options.dryrun ? " (dry run)" : ""}...\n`,
+	);
 
-		const items = [getHelixBackupItem(backupDir)];
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
-	});
+	for (const backup of toPrune) {
+		if (!options.dryrun) {
+			rmSync(getBackupDir(backup.id), { recursive: true, force: true });
+		}
+		printLine(`\x1b[33m-\x1b[0m ${backup.id} (${formatSize(backup.size)})`);
+	}
 
-// Subcommand: backup tmux
-backupCommand
-	.command("tmux")
-	.description("Backup tmux configuration")
-	.action(() => {
-		console.log("Creating tmux backup...\n");
+	printLine();
+	if (options.dryrun) {
+		printLine("\x1b[36m[DRY RUN] No backups were removed.\x1b[0m");
+	} else {
+		printLine(`\x1b[32m✓ Removed ${toPrune.length} backup(s)\x1b[0m`);
+	}
+}
 
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0];
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
+function verifyBackupAction(idArg: string) {
+	const id = resolveBackupId(idArg);
+	if (!id) {
+		printLine(`\x1b[31m✗ Backup ${idArg} not found\x1b[0m`);
+		process.exit(1);
+	}
 
-		mkdirSync(backupDir, { recursive: true });
+	printLine(`Verifying backup ${id}...\n`);
+	const { hasManifest, problems } = verifyBackup(id);
 
-		const items = [getTmuxBackupItem(backupDir)];
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
-	});
+	if (!hasManifest) {
+		printLine(
+			`\x1b[33m⚠ backups/${id} has no manifest (made before checksums were recorded), cannot verify\x1b[0m`,
+		);
+		process.exit(1);
+	}
 
-// Subcommand: backup bashrc
-backupCommand
-	.command("bashrc")
-	.alias("bash")
-	.description("Backup bashrc configuration")
-	.action(() => {
-		console.log("Creating bashrc backup...\n");
+	for (const problem of problems) {
+		printLine(`\x1b[31m✗\x1b[0m ${problem.path}`);
+		printLine(`  ${problem.message}`);
+	}
 
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0];
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
+	if (problems.length > 0) {
+		printLine();
+		printLine(
+			`\x1b[31m✗ Backup ${id} failed verification (${problems.length} problem(s))\x1b[0m`,
+		);
+		process.exit(1);
+	}
 
-		mkdirSync(backupDir, { recursive: true });
+	printLine(`\x1b[32m✓ Backup ${id} matches its manifest\x1b[0m`);
+}
 
-		const items = [getBashrcBackupItem(backupDir)];
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
+export const backupCommand = new Command("backup")
+	.description("Backup current configuration files to a timestamped folder")
+	.action(() => {
+		if (isTextOutput()) {
+			printLine("Creating backup...\n");
+		}
+		runBackup(getModules());
 	});
 
-// Subcommand: backup zed
+// Subcommand: backup all
 backupCommand
-	.command("zed")
-	.description("Backup Zed configuration")
+	.command("all")
+	.description("Backup all configurations")
 	.action(() => {
-		console.log("Creating Zed backup...\n");
-
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0];
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
-
-		mkdirSync(backupDir, { recursive: true });
-
-		const items = [getZedBackupItem(backupDir)];
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
+		if (isTextOutput()) {
+			printLine("Creating backup...\n");
+		}
+		runBackup(getModules());
 	});
 
-// Subcommand: backup opencode
+// Subcommand: backup list
 backupCommand
-	.command("opencode")
-	.description("Backup opencode configuration")
+	.command("list")
+	.alias("ls")
+	.description("List existing backups with their date, modules and size")
 	.action(() => {
-		console.log("Creating opencode backup...\n");
+		listBackupsAction();
+	});
 
-		const today = new Date();
-		const dateStr = today.toISOString().split("T")[0];
-		const repoRoot = join(__dirname, "../..");
-		const backupDir = join(repoRoot, "backups", dateStr);
+// Subcommand: backup show
+backupCommand
+	.command("show")
+	.description("Show the files contained in a backup")
+	.argument("<id>", "Backup ID (or a date to pick the newest backup that day)")
+	.action((id: string) => {
+		showBackupAction(id);
+	});
 
-		mkdirSync(backupDir, { recursive: true });
+// Subcommand: backup verify
+backupCommand
+	.command("verify")
+	.description("Check a backup's files against its manifest checksums")
+	.argument("<id>", "Backup ID (or a date to pick the newest backup that day)")
+	.action((id: string) => {
+		verifyBackupAction(id);
+	});
 
-		const items = [getOpencodeBackupItem(backupDir)];
-		const results = performBackup(items);
-		displayBackupResults(results, `backups/${dateStr}`);
+// Subcommand: backup prune
+backupCommand
+	.command("prune")
+	.description(
+		"Remove old backups (defaults to backupRetention in dotfiles.json)",
+	)
+	.option("--keep-last <n>", "Keep the newest N backups")
+	.option(
+		"--keep-daily <n>",
+		"Keep the newest backup of each of the last N days",
+	)
+	.option("-d, --dryrun", "Show what would be removed without removing it")
+	.action((options) => {
+		pruneBackupsAction(options);
 	});
+
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	backupCommand
+		.command(module.name)
+		.aliases(module.aliases)
+		.description(`Backup ${module.label} configuration`)
+		.action(() => {
+			if (isTextOutput()) {
+				printLine(`Creating ${module.label} backup...\n`);
+			}
+			runBackup([module]);
+		});
+}
@@ -0,0 +1,37 @@
+import { Command } from "commander";
+import { getModules } from "../utils/manifest.ts";
+import {
+	addDiffOptions,
+	getDiffOptions,
+	showConfigDiffs,
+} from "../utils/show-config-diffs.ts";
+
+export const diffCommand = new Command("diff").description(
+	"Show differences between repo and installed configs",
+);
+
+// Default action when no subcommand is provided
+addDiffOptions(diffCommand).action((_, cmd) => {
+	showConfigDiffs(getModules(), getDiffOptions(cmd));
+});
+
+// Subcommand: diff all
+addDiffOptions(
+	diffCommand
+		.command("all")
+		.description("Show differences for all configurations"),
+).action((_, cmd) => {
+	showConfigDiffs(getModules(), getDiffOptions(cmd));
+});
+
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	addDiffOptions(
+		diffCommand
+			.command(module.name)
+			.aliases(module.aliases)
+			.description(`Show differences for ${module.label} configuration`),
+	).action((_, cmd) => {
+		showConfigDiffs([module], getDiffOptions(cmd));
+	});
+}
@@ -1,32 +1,74 @@
-import {
-	copyFileSync,
-	existsSync,
-	mkdirSync,
-	readdirSync,
-	readFileSync,
-	writeFileSync,
-} from "node:fs";
-import { homedir } from "node:os";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { Command } from "commander";
+import { resolveBackupId, verifyBackup } from "../utils/backups.ts";
+import {
+	copyFile,
+	ensureParentDir,
+	fileExists,
+	hashContent,
+	readTextFile,
+} from "../utils/fs-helper.ts";
+import {
+	getBaseContent,
+	getConflictPath,
+	getFileRecord,
+	getModuleFilePairs,
+	recordModuleFiles,
+	replaceModuleRecords,
+} from "../utils/install-state.ts";
 import {
 	findJsonConflict,
-	mergeJson,
+	mergeJsonc,
 	parseJsonc,
 } from "../utils/json-helper.ts";
-import { showConfigDiffs } from "../utils/show-config-diffs.ts";
 import {
-	type VerifyResult,
-	verifyBashrc,
-	verifyHelixConfig,
-	verifyOpencodeConfig,
-	verifyTmuxConfig,
-	verifyZedConfig,
-} from "./verify.ts";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+	getModuleStatus,
+	isLinkedToRepo,
+	isSymlink,
+	linkPath,
+} from "../utils/link.ts";
+import { checkModuleValidation } from "../utils/lint.ts";
+import {
+	findManagedBlock,
+	getInstalledPath,
+	replaceManagedBlock,
+} from "../utils/managed-block.ts";
+import {
+	describeSourcePath,
+	describeSystemFile,
+	getModules,
+	getOverlayPaths,
+	getSourcePath,
+	getSystemPath,
+	getTemplatePath,
+	type ModuleDefinition,
+} from "../utils/manifest.ts";
+import { choosePatchHunks, type PatchSession } from "../utils/patch.ts";
+import { getTextStream, isTextOutput, printReport } from "../utils/report.ts";
+import {
+	checkModuleSecrets,
+	getModuleSecretReferences,
+	resolveModuleSecrets,
+	resolveSecretPlaceholders,
+} from "../utils/secrets.ts";
+import {
+	addDiffOptions,
+	type DiffOptions,
+	getDiffOptions,
+	showConfigDiffs,
+	writePatchFile,
+} from "../utils/show-config-diffs.ts";
+import {
+	type PendingSnapshot,
+	recordSnapshot,
+	recordSnapshotFile,
+	startSnapshot,
+} from "../utils/snapshot.ts";
+import { getRenderedSourcePath } from "../utils/template.ts";
+import { printLine, writeText } from "../utils/terminal.ts";
+import { mergeText, planModuleMerge } from "../utils/text-merge.ts";
+import { mergeToml, parseToml, type TomlTable } from "../utils/toml-helper.ts";
+import { type VerifyResult, verifyModule } from "./verify.ts";
 
 interface InstallResult {
 	name: string;
@@ -35,30 +77,16 @@ interface InstallResult {
 	skipped?: boolean;
 }
 
-function copyDirectory(src: string, dest: string, force = false): void {
-	if (!existsSync(dest)) {
-		mkdirSync(dest, { recursive: true });
-	}
-
-	const entries = readdirSync(src, { withFileTypes: true });
-
-	for (const entry of entries) {
-		if (entry.name === ".git") {
-			continue;
-		}
-
-		const srcPath = join(src, entry.name);
-		const destPath = join(dest, entry.name);
-
-		if (entry.isDirectory()) {
-			copyDirectory(srcPath, destPath, force);
-		} else {
-			if (!force && existsSync(destPath)) {
-				continue;
-			}
-			copyFileSync(srcPath, destPath);
-		}
-	}
+interface InstallOptions {
+	dryrun: boolean;
+	force: boolean;
+	from?: string;
+	merge: boolean;
+	link: boolean;
+	/** Set to ask about each hunk instead of writing whole files */
+	patch?: PatchSession;
+	/** Receives the state of each module right before it is overwritten */
+	snapshot?: PendingSnapshot;
 }
 
 function displayVerifyResults(results: VerifyResult[]): void {
@@ -72,436 +100,793 @@ function displayVerifyResults(results: VerifyResult[]): void {
 
 		const reset = "\x1b[0m";
 
-		console.log(`${color}${status}${reset} ${result.name}`);
+		printLine(`${color}${status}${reset} ${result.name}`);
 		if (result.message) {
-			console.log(`  ${result.message}`);
+			printLine(`  ${result.message}`);
 		}
 	}
-	console.log();
+	printLine();
 }
 
-function installHelix(
-	dryrun = false,
-	force = false,
-	from?: string,
-	_merge = false,
+/**
+ * Merge the source JSON(C) file into the existing destination file
+ */
+function mergeJsonModule(
+	module: ModuleDefinition,
+	source: string,
+	dest: string,
+	{ dryrun, snapshot }: InstallOptions,
 ): InstallResult {
 	try {
-		const repoRoot = join(__dirname, "../..");
-		const sourceBase = from
-			? join(repoRoot, "backups", from)
-			: join(repoRoot, "configs");
-		const source = join(sourceBase, "helix");
-		const dest = join(homedir(), ".config", "helix");
-
-		if (!existsSync(source)) {
-			return {
-				name: "helix",
-				success: false,
-				message: from
-					? `backups/${from}/helix not found`
-					: "configs/helix not found in repo",
-			};
-		}
+		const sourceContent = resolveSecretPlaceholders(
+			readTextFile(source),
+			source,
+		);
+		const destContent = readFileSync(dest, "utf-8");
+		const sourceJson = parseJsonc(sourceContent);
+		const destJson = parseJsonc(destContent);
 
-		if (!force && existsSync(dest)) {
+		const conflict = findJsonConflict(sourceJson, destJson);
+		if (conflict) {
 			return {
-				name: "helix",
+				name: module.name,
 				success: true,
 				skipped: true,
-				message: "~/.config/helix already exists (use --force to overwrite)",
+				message: `${module.systemPath} already exists and has conflicting values (merge failed at: '${conflict}'; use --force to overwrite)`,
 			};
 		}
 
+		// Only the missing keys are inserted, the rest of the file is kept as is
+		const merged = mergeJsonc(sourceJson, destContent);
 		if (!dryrun) {
-			copyDirectory(source, dest, force);
+			if (snapshot) {
+				recordSnapshot(snapshot, module);
+			}
+			ensureParentDir(dest);
+			writeFileSync(dest, merged);
+			recordModuleFiles(module, "install");
 		}
 
 		return {
-			name: "helix",
+			name: module.name,
 			success: true,
-			message: dryrun ? `Would install: ${source} → ${dest}` : undefined,
+			message: dryrun
+				? `Would merge configurations (no conflict detected): ${source} → ${dest}`
+				: `Merged and installed configuration successfully: ${source} → ${dest}`,
 		};
 	} catch (error) {
 		return {
-			name: "helix",
+			name: module.name,
 			success: false,
-			message: error instanceof Error ? error.message : String(error),
+			message: `Failed to parse/merge JSON: ${error instanceof Error ? error.message : String(error)}`,
 		};
 	}
 }
 
-function installTmux(
-	dryrun = false,
-	force = false,
-	from?: string,
-	_merge = false,
+/**
+ * Three-way merge the repo copy into the installed one, using the repo copy
+ * of the last install as the base. Conflicts are written next to the
+ * installed file as `<file>.conflict` and the installed file is left alone.
+ */
+function mergeTextModule(
+	module: ModuleDefinition,
+	{ dryrun, snapshot }: InstallOptions,
 ): InstallResult {
 	try {
-		const repoRoot = join(__dirname, "../..");
-		const sourceBase = from
-			? join(repoRoot, "backups", from)
-			: join(repoRoot, "configs");
-		const source = join(sourceBase, "tmux/tmux.conf");
-		const dest = join(homedir(), ".config", "tmux", "tmux.conf");
-
-		if (!existsSync(source)) {
+		const unresolved = getModuleFilePairs(module)
+			.map(({ systemFile }) => getConflictPath(systemFile))
+			.filter((path) => existsSync(path));
+		if (unresolved.length > 0) {
 			return {
-				name: "tmux",
+				name: module.name,
 				success: false,
-				message: from
-					? `backups/${from}/tmux/tmux.conf not found`
-					: "configs/tmux/tmux.conf not found in repo",
+				message: `Unresolved conflicts from the last install in: ${unresolved.join(", ")} (resolve them and move them over the installed files first)`,
 			};
 		}
 
-		if (!force && existsSync(dest)) {
+		const plan = planModuleMerge(module, "install");
+
+		if (plan.some((file) => file.action === "no-base")) {
 			return {
-				name: "tmux",
+				name: module.name,
 				success: true,
 				skipped: true,
-				message:
-					"~/.config/tmux/tmux.conf already exists (use --force to overwrite)",
+				message: `${module.systemPath} already exists and has no install record to merge from (use --force to overwrite${isTomlModule(module) ? ", or --merge to add missing TOML keys" : ""})`,
+			};
+		}
+
+		const conflicts = plan.filter((file) => file.action === "conflict");
+		if (conflicts.length > 0) {
+			if (!dryrun) {
+				for (const file of conflicts) {
+					const content = resolveSecretPlaceholders(
+						file.content as string,
+						file.target,
+					);
+					if (snapshot) {
+						recordSnapshotFile(snapshot, module, getConflictPath(file.target));
+					}
+					// The base stays until the conflict is resolved, so installing
+					// again still conflicts instead of counting the merge as done
+					writeFileSync(getConflictPath(file.target), content);
+				}
+			}
+			const files = conflicts.map((file) => getConflictPath(file.target));
+			return {
+				name: module.name,
+				success: false,
+				message: dryrun
+					? `Would conflict with local changes in: ${conflicts.map((file) => file.target).join(", ")}`
+					: `Local changes conflict with the repo, resolve them in: ${files.join(", ")}`,
+			};
+		}
+
+		const changes = plan.filter(
+			(file) => file.action === "merged" || file.action === "copy",
+		);
+		if (changes.length === 0) {
+			return {
+				name: module.name,
+				success: true,
+				message: `${module.systemPath} is up to date`,
 			};
 		}
 
 		if (!dryrun) {
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
+			if (snapshot) {
+				recordSnapshot(snapshot, module);
 			}
-			copyFileSync(source, dest);
+			for (const file of changes) {
+				if (file.action === "merged") {
+					writeFileSync(file.target, file.content as string);
+				} else {
+					copyFile(file.incoming, file.target);
+				}
+			}
+			resolveModuleSecrets(module);
+			recordModuleFiles(module, "install");
 		}
 
 		return {
-			name: "tmux",
+			name: module.name,
 			success: true,
-			message: dryrun ? `Would install: ${source} → ${dest}` : undefined,
+			message: `${dryrun ? "Would merge" : "Merged"} repo changes into ${changes.map((file) => file.target).join(", ")}`,
 		};
 	} catch (error) {
 		return {
-			name: "tmux",
+			name: module.name,
 			success: false,
 			message: error instanceof Error ? error.message : String(error),
 		};
 	}
 }
 
-function installBashrc(
-	dryrun = false,
-	force = false,
-	from?: string,
-	_merge = false,
+/**
+ * Whether a module is or contains TOML files, which `--merge` can merge
+ */
+function isTomlModule(module: ModuleDefinition, from?: string): boolean {
+	return getModuleFilePairs(module, from).some(({ repoFile }) =>
+		repoFile.endsWith(".toml"),
+	);
+}
+
+/**
+ * Merge the repo TOML files of a module into the installed ones by adding
+ * only the keys and tables they are missing. Other files are copied when
+ * missing and must otherwise match the repo.
+ */
+function mergeTomlModule(
+	module: ModuleDefinition,
+	{ dryrun, from, snapshot }: InstallOptions,
 ): InstallResult {
 	try {
-		const repoRoot = join(__dirname, "../..");
-		const sourceBase = from
-			? join(repoRoot, "backups", from)
-			: join(repoRoot, "configs");
-		const source = join(sourceBase, "bashrc");
-		const dest = join(homedir(), ".bashrc");
+		const writes: { target: string; source: string; content?: string }[] = [];
 
-		if (!existsSync(source)) {
-			return {
-				name: "bashrc",
-				success: false,
-				message: from
-					? `backups/${from}/bashrc not found`
-					: "configs/bashrc not found in repo",
-			};
+		for (const { repoFile, systemFile } of getModuleFilePairs(module, from)) {
+			if (!fileExists(repoFile)) {
+				continue;
+			}
+			if (!existsSync(systemFile)) {
+				writes.push({ target: systemFile, source: repoFile });
+				continue;
+			}
+
+			const repoContent = resolveSecretPlaceholders(
+				readTextFile(repoFile),
+				repoFile,
+			);
+			const systemContent = readFileSync(systemFile, "utf-8");
+			if (repoContent === systemContent) {
+				continue;
+			}
+
+			const path = describeSystemFile(module, systemFile);
+			if (!systemFile.endsWith(".toml")) {
+				return {
+					name: module.name,
+					success: true,
+					skipped: true,
+					message: `${path} differs from the repo and is not TOML (use --force to overwrite)`,
+				};
+			}
+
+			let source: TomlTable;
+			let dest: TomlTable;
+			try {
+				source = parseToml(repoContent);
+				dest = parseToml(systemContent);
+			} catch (error) {
+				throw new Error(
+					`Failed to parse TOML in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+
+			const conflict = findJsonConflict(source, dest);
+			if (conflict) {
+				return {
+					name: module.name,
+					success: true,
+					skipped: true,
+					message: `${path} already exists and has conflicting values (merge failed at: '${conflict}'; use --force to overwrite)`,
+				};
+			}
+
+			const merged = mergeToml(source, systemContent);
+			if (merged !== systemContent) {
+				writes.push({ target: systemFile, source: repoFile, content: merged });
+			}
 		}
 
-		if (!force && existsSync(dest)) {
+		if (writes.length === 0) {
 			return {
-				name: "bashrc",
+				name: module.name,
 				success: true,
-				skipped: true,
-				message: "~/.bashrc already exists (use --force to overwrite)",
+				message: `${module.systemPath} is up to date`,
 			};
 		}
 
 		if (!dryrun) {
-			copyFileSync(source, dest);
+			if (snapshot) {
+				recordSnapshot(snapshot, module);
+			}
+			for (const write of writes) {
+				if (write.content !== undefined) {
+					writeFileSync(write.target, write.content);
+				} else {
+					copyFile(write.source, write.target);
+				}
+			}
+			resolveModuleSecrets(module);
+			recordModuleFiles(module, "install");
 		}
 
 		return {
-			name: "bashrc",
+			name: module.name,
 			success: true,
-			message: dryrun ? `Would install: ${source} → ${dest}` : undefined,
+			message: `${dryrun ? "Would merge" : "Merged"} missing keys into ${writes.map((write) => write.target).join(", ")}`,
 		};
 	} catch (error) {
 		return {
-			name: "bashrc",
+			name: module.name,
 			success: false,
 			message: error instanceof Error ? error.message : String(error),
 		};
 	}
 }
 
-function installZed(
-	dryrun = false,
-	force = false,
-	from?: string,
-	merge = false,
+/**
+ * Write the repo copy between the dotfiles markers of the installed file,
+ * leaving the lines outside the block alone. A block edited since the last
+ * install is three-way merged with the repo copy, like `"merge": "text"`
+ * modules, and conflicts are written to `<file>.conflict`. A file without
+ * markers that was installed whole before is turned into the block instead
+ * of getting a second copy appended.
+ */
+function installBlockModule(
+	module: ModuleDefinition,
+	source: string,
+	{ dryrun, force, snapshot }: InstallOptions,
+): InstallResult {
+	const dest = getSystemPath(module);
+	const conflictPath = getConflictPath(dest);
+	if (!force && existsSync(conflictPath)) {
+		return {
+			name: module.name,
+			success: false,
+			message: `Unresolved conflicts from the last install in: ${conflictPath} (resolve them and move them over ${module.systemPath} first)`,
+		};
+	}
+
+	const current = existsSync(dest) ? readFileSync(dest, "utf-8") : "";
+	const block = findManagedBlock(current, module.systemPath);
+	const content = resolveSecretPlaceholders(readTextFile(source), source);
+
+	if (block?.content === content) {
+		return {
+			name: module.name,
+			success: true,
+			message: `The dotfiles block in ${module.systemPath} is up to date`,
+		};
+	}
+
+	let next: string;
+	let action: "add" | "update" | "merge" | "convert";
+	if (!block) {
+		// A whole-file install left the config without markers
+		const record = getFileRecord(dest);
+		const installedWhole =
+			current !== "" &&
+			(current === content ||
+				(record !== undefined && hashContent(current) === record.systemHash));
+		if (!installedWhole && record && !force) {
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message: `${module.systemPath} was installed as a whole file and edited since, it has no dotfiles block (use --force to replace it with the block, \`dotfiles rollback\` undoes that)`,
+			};
+		}
+		action = installedWhole || record ? "convert" : "add";
+		next = replaceManagedBlock(
+			action === "convert" ? "" : current,
+			content,
+			module.systemPath,
+		);
+	} else if (force) {
+		action = "update";
+		next = replaceManagedBlock(current, content, module.systemPath);
+	} else {
+		const base = getBaseContent(getInstalledPath(module));
+		if (base === undefined) {
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message: `The dotfiles block in ${module.systemPath} has no install record to merge from (use --force to overwrite the block)`,
+			};
+		}
+
+		const { text, conflicts } = mergeText(
+			block.content,
+			resolveSecretPlaceholders(base, source),
+			content,
+			{ ours: "system", theirs: "repo" },
+		);
+		if (conflicts > 0) {
+			if (!dryrun) {
+				if (snapshot) {
+					recordSnapshotFile(snapshot, module, conflictPath);
+				}
+				// The base stays until the conflict is resolved, as for text merges
+				writeFileSync(
+					conflictPath,
+					replaceManagedBlock(current, text, module.systemPath),
+				);
+			}
+			return {
+				name: module.name,
+				success: false,
+				message: dryrun
+					? `Would conflict with local changes in the dotfiles block of ${module.systemPath}`
+					: `Local changes conflict with the repo, resolve them in: ${conflictPath}`,
+			};
+		}
+		if (text === block.content) {
+			return {
+				name: module.name,
+				success: true,
+				message: `The dotfiles block in ${module.systemPath} is up to date`,
+			};
+		}
+		action = "merge";
+		next = replaceManagedBlock(current, text, module.systemPath);
+	}
+
+	if (!dryrun) {
+		if (snapshot) {
+			recordSnapshot(snapshot, module);
+		}
+		ensureParentDir(dest);
+		writeFileSync(dest, next);
+		if (action === "convert") {
+			// The record of the whole file is replaced by the one of the block
+			replaceModuleRecords(module.name, {});
+		}
+		recordModuleFiles(module, "install");
+	}
+
+	const messages = {
+		add: ["Would add", "Added", "the dotfiles block in"],
+		update: ["Would update", "Updated", "the dotfiles block in"],
+		merge: ["Would merge", "Merged", "repo changes into the dotfiles block in"],
+		convert: [
+			"Would turn",
+			"Turned",
+			"the whole-file install into the dotfiles block in",
+		],
+	};
+	const [planned, done, what] = messages[action];
+	return {
+		name: module.name,
+		success: true,
+		message: `${dryrun ? planned : done} ${what} ${module.systemPath}`,
+	};
+}
+
+/**
+ * Ask about each hunk between the repo and the installed files, and write the
+ * chosen ones
+ */
+function patchInstallModule(
+	module: ModuleDefinition,
+	session: PatchSession,
+	{ dryrun, from, snapshot }: InstallOptions,
+): InstallResult {
+	if (session.quit) {
+		return {
+			name: module.name,
+			success: true,
+			skipped: true,
+			message: "Skipped (quit)",
+		};
+	}
+
+	const writes: { target: string; content: string }[] = [];
+	let hunks = 0;
+	let applied = 0;
+	for (const { repoFile, systemFile } of getModuleFilePairs(module, from)) {
+		if (!fileExists(repoFile)) {
+			continue;
+		}
+		const outcome = choosePatchHunks(
+			fileExists(systemFile) ? readTextFile(systemFile) : "",
+			resolveSecretPlaceholders(readTextFile(repoFile), repoFile),
+			describeSystemFile(module, systemFile),
+			session,
+		);
+		hunks += outcome.hunks;
+		applied += outcome.applied;
+		if (outcome.applied > 0) {
+			writes.push({ target: systemFile, content: outcome.content });
+		}
+	}
+
+	if (hunks === 0) {
+		return {
+			name: module.name,
+			success: true,
+			message: `${module.systemPath} is up to date`,
+		};
+	}
+
+	if (!dryrun && writes.length > 0) {
+		if (snapshot) {
+			recordSnapshot(snapshot, module);
+		}
+		for (const { target, content } of writes) {
+			// The block is a copy, the real file keeps the lines around it
+			if (module.merge === "block") {
+				const dest = getSystemPath(module);
+				const current = existsSync(dest) ? readFileSync(dest, "utf-8") : "";
+				ensureParentDir(dest);
+				writeFileSync(
+					dest,
+					replaceManagedBlock(current, content, module.systemPath),
+				);
+				continue;
+			}
+			if (isSymlink(target)) {
+				rmSync(target);
+			}
+			ensureParentDir(target);
+			writeFileSync(target, content);
+		}
+		// Recording the repo copy as the base after a partial apply would make
+		// the skipped hunks look like local deletions, so the last record
+		// stays until every hunk is taken
+		if (applied === hunks) {
+			recordModuleFiles(module, "install");
+		}
+	}
+
+	return {
+		name: module.name,
+		success: true,
+		skipped: applied === 0,
+		message: `${dryrun ? "Would apply" : "Applied"} ${applied} of ${hunks} hunk(s)`,
+	};
+}
+
+/**
+ * Symlink the system path to the repo copy (stow-style) instead of copying
+ */
+function linkModule(
+	module: ModuleDefinition,
+	{ dryrun, force, from, patch, snapshot }: InstallOptions,
 ): InstallResult {
 	try {
-		const repoRoot = join(__dirname, "../..");
-		const sourceBase = from
-			? join(repoRoot, "backups", from)
-			: join(repoRoot, "configs");
-		const source = join(sourceBase, "zed/settings.json");
-		const dest = join(homedir(), ".config", "zed", "settings.json");
+		if (from || patch) {
+			return {
+				name: module.name,
+				success: false,
+				message: `--link cannot be combined with ${from ? "--from" : "--patch"}`,
+			};
+		}
+
+		if (getTemplatePath(module)) {
+			return {
+				name: module.name,
+				success: false,
+				message: `${describeSourcePath(module)} is a template and cannot be linked, install it without --link`,
+			};
+		}
+
+		if (getOverlayPaths(module).length > 0) {
+			return {
+				name: module.name,
+				success: false,
+				message: `${describeSourcePath(module)} is layered and cannot be linked, install it without --link`,
+			};
+		}
+
+		// Linking would replace the lines around the block, so --link on all
+		// modules leaves it alone instead of failing
+		if (module.merge === "block") {
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message: `${module.systemPath} is managed as a block and cannot be linked, skipped (install it without --link)`,
+			};
+		}
+
+		if (getModuleSecretReferences(module).length > 0) {
+			return {
+				name: module.name,
+				success: false,
+				message: `${describeSourcePath(module)} has secret placeholders and cannot be linked, install it without --link`,
+			};
+		}
+
+		const source = getSourcePath(module);
+		const dest = getSystemPath(module);
 
 		if (!existsSync(source)) {
 			return {
-				name: "zed",
+				name: module.name,
 				success: false,
-				message: from
-					? `backups/${from}/zed/settings.json not found`
-					: "configs/zed/settings.json not found in repo",
+				message: `${describeSourcePath(module)} not found in repo`,
 			};
 		}
 
-		if (!force && existsSync(dest)) {
-			if (merge) {
-				try {
-					const sourceContent = readFileSync(source, "utf-8");
-					const destContent = readFileSync(dest, "utf-8");
-					const sourceJson = parseJsonc(sourceContent);
-					const destJson = parseJsonc(destContent);
-
-					const conflict = findJsonConflict(sourceJson, destJson);
-					if (conflict) {
-						return {
-							name: "zed",
-							success: true,
-							skipped: true,
-							message: `~/.config/zed/settings.json already exists and has conflicting values (merge failed at: '${conflict}'; use --force to overwrite)`,
-						};
-					}
+		const status = getModuleStatus(module);
 
-					const merged = mergeJson(sourceJson, destJson);
-					if (!dryrun) {
-						const parentDir = dirname(dest);
-						if (!existsSync(parentDir)) {
-							mkdirSync(parentDir, { recursive: true });
-						}
-						writeFileSync(dest, `${JSON.stringify(merged, null, 2)}\n`);
-					}
+		if (status.state === "linked") {
+			return {
+				name: module.name,
+				success: true,
+				message: `Already linked: ${dest} → ${source}`,
+			};
+		}
 
-					return {
-						name: "zed",
-						success: true,
-						message: dryrun
-							? `Would merge configurations (no conflict detected): ${source} → ${dest}`
-							: `Merged and installed configuration successfully: ${source} → ${dest}`,
-					};
-				} catch (error) {
-					return {
-						name: "zed",
-						success: false,
-						message: `Failed to parse/merge JSON: ${error instanceof Error ? error.message : String(error)}`,
-					};
-				}
-			} else {
-				return {
-					name: "zed",
-					success: true,
-					skipped: true,
-					message:
-						"~/.config/zed/settings.json already exists (use --force to overwrite, or --merge to merge JSON without conflicts)",
-				};
-			}
+		if (!force && status.state === "foreign-link") {
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message: `${module.systemPath} is a symlink to ${status.linkTarget} (use --force to relink)`,
+			};
 		}
 
-		if (!dryrun) {
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
+		if (!force && status.state === "diverged") {
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message: `${module.systemPath} differs from ${describeSourcePath(module)} (sync it first, or use --force to link and keep the current copy aside)`,
+			};
+		}
+
+		if (dryrun) {
+			return {
+				name: module.name,
+				success: true,
+				message:
+					status.state === "copied"
+						? `Would convert copy to link: ${dest} → ${source}`
+						: `Would link: ${dest} → ${source}`,
+			};
+		}
+
+		// Only a copy that differs from the repo is worth keeping
+		const previous =
+			status.state === "diverged"
+				? `${dest}.dotfiles-${Date.now()}`
+				: undefined;
+		if (snapshot) {
+			recordSnapshot(snapshot, module);
+			if (previous) {
+				recordSnapshotFile(snapshot, module, previous);
 			}
-			copyFileSync(source, dest);
 		}
+		linkPath(source, dest, previous);
 
 		return {
-			name: "zed",
+			name: module.name,
 			success: true,
-			message: dryrun ? `Would install: ${source} → ${dest}` : undefined,
+			message: previous
+				? `Linked: ${dest} → ${source} (previous copy kept at ${previous})`
+				: `Linked: ${dest} → ${source}`,
 		};
 	} catch (error) {
 		return {
-			name: "zed",
+			name: module.name,
 			success: false,
 			message: error instanceof Error ? error.message : String(error),
 		};
 	}
 }
 
-function installOpencode(
-	dryrun = false,
-	force = false,
-	from?: string,
-	merge = false,
+function installModule(
+	module: ModuleDefinition,
+	options: InstallOptions,
 ): InstallResult {
+	const { dryrun, force, from, merge, link, patch, snapshot } = options;
+
+	if (link) {
+		return linkModule(module, options);
+	}
+
 	try {
-		const repoRoot = join(__dirname, "../..");
-		const sourceBase = from
-			? join(repoRoot, "backups", from)
-			: join(repoRoot, "configs");
-		const source = join(sourceBase, "opencode/opencode.jsonc");
-		const dest = join(homedir(), ".config", "opencode", "opencode.jsonc");
+		const source = getRenderedSourcePath(module, from);
+		const dest = getSystemPath(module);
 
-		if (!existsSync(source)) {
+		if (!fileExists(source)) {
 			return {
-				name: "opencode",
+				name: module.name,
 				success: false,
 				message: from
-					? `backups/${from}/opencode/opencode.jsonc not found`
-					: "configs/opencode/opencode.jsonc not found in repo",
+					? `${describeSourcePath(module, from)} not found`
+					: `${describeSourcePath(module)} not found in repo`,
 			};
 		}
 
-		if (!force && existsSync(dest)) {
-			if (merge) {
-				try {
-					const sourceContent = readFileSync(source, "utf-8");
-					const destContent = readFileSync(dest, "utf-8");
-					const sourceJson = parseJsonc(sourceContent);
-					const destJson = parseJsonc(destContent);
-
-					const conflict = findJsonConflict(sourceJson, destJson);
-					if (conflict) {
-						return {
-							name: "opencode",
-							success: true,
-							skipped: true,
-							message: `~/.config/opencode/opencode.jsonc already exists and has conflicting values (merge failed at: '${conflict}'; use --force to overwrite)`,
-						};
-					}
+		// Fail before writing anything if a placeholder cannot be resolved
+		if (!from) {
+			checkModuleSecrets(module);
+		}
 
-					const merged = mergeJson(sourceJson, destJson);
-					if (!dryrun) {
-						const parentDir = dirname(dest);
-						if (!existsSync(parentDir)) {
-							mkdirSync(parentDir, { recursive: true });
-						}
-						writeFileSync(dest, `${JSON.stringify(merged, null, 2)}\n`);
-					}
+		// Fail on configs the tool would reject, e.g. a helix theme that does not resolve
+		if (!force) {
+			checkModuleValidation(module, from);
+		}
 
-					return {
-						name: "opencode",
-						success: true,
-						message: dryrun
-							? `Would merge configurations (no conflict detected): ${source} → ${dest}`
-							: `Merged and installed configuration successfully: ${source} → ${dest}`,
-					};
-				} catch (error) {
-					return {
-						name: "opencode",
-						success: false,
-						message: `Failed to parse/merge JSON: ${error instanceof Error ? error.message : String(error)}`,
-					};
-				}
-			} else {
-				return {
-					name: "opencode",
-					success: true,
-					skipped: true,
-					message:
-						"~/.config/opencode/opencode.jsonc already exists (use --force to overwrite, or --merge to merge JSON without conflicts)",
-				};
+		// Writing through a link would modify the repo copy itself
+		if (!force && isLinkedToRepo(module)) {
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message: `${module.systemPath} is linked to ${describeSourcePath(module)} (use --force to replace the link with a copy)`,
+			};
+		}
+
+		if (patch) {
+			return patchInstallModule(module, patch, options);
+		}
+
+		if (module.merge === "block" && !from) {
+			return installBlockModule(module, source, options);
+		}
+
+		if (!force && existsSync(dest)) {
+			if (module.merge === "json" && merge) {
+				return mergeJsonModule(module, source, dest, options);
+			}
+			if (merge && isTomlModule(module, from)) {
+				return mergeTomlModule(module, options);
+			}
+			if (module.merge === "text" && !from) {
+				return mergeTextModule(module, options);
 			}
+
+			return {
+				name: module.name,
+				success: true,
+				skipped: true,
+				message:
+					module.merge === "json"
+						? `${module.systemPath} already exists (use --force to overwrite, or --merge to merge JSON without conflicts)`
+						: isTomlModule(module, from)
+							? `${module.systemPath} already exists (use --force to overwrite, or --merge to add missing TOML keys)`
+							: `${module.systemPath} already exists (use --force to overwrite)`,
+			};
 		}
 
 		if (!dryrun) {
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
+			if (snapshot) {
+				recordSnapshot(snapshot, module);
+			}
+			if (isSymlink(dest)) {
+				rmSync(dest);
 			}
-			copyFileSync(source, dest);
+			// Each file of a directory comes from the layer that has it
+			for (const { repoFile, systemFile } of getModuleFilePairs(module, from)) {
+				if (fileExists(repoFile) && (force || !existsSync(systemFile))) {
+					copyFile(repoFile, systemFile);
+				}
+			}
+			resolveModuleSecrets(module);
+			recordModuleFiles(module, "install");
 		}
 
 		return {
-			name: "opencode",
+			name: module.name,
 			success: true,
-			message: dryrun ? `Would install: ${source} → ${dest}` : undefined,
+			message: dryrun
+				? `Would install: ${getTemplatePath(module, from) ? `${describeSourcePath(module)} (rendered)` : source} → ${dest}`
+				: undefined,
 		};
 	} catch (error) {
 		return {
-			name: "opencode",
+			name: module.name,
 			success: false,
 			message: error instanceof Error ? error.message : String(error),
 		};
 	}
 }
 
-function installAll(
-	dryrun = false,
-	force = false,
-	from?: string,
-	merge = false,
-): InstallResult[] {
-	return [
-		installHelix(dryrun, force, from, merge),
-		installTmux(dryrun, force, from, merge),
-		installBashrc(dryrun, force, from, merge),
-		installZed(dryrun, force, from, merge),
-		installOpencode(dryrun, force, from, merge),
-	];
-}
-
-function getVerifyResults(items: string[]): VerifyResult[] {
-	const results: VerifyResult[] = [];
-
-	for (const item of items) {
-		switch (item) {
-			case "helix":
-				results.push(verifyHelixConfig());
-				break;
-			case "tmux":
-				results.push(verifyTmuxConfig());
-				break;
-			case "bashrc":
-				results.push(verifyBashrc());
-				break;
-			case "zed":
-				results.push(verifyZedConfig());
-				break;
-			case "opencode":
-				results.push(verifyOpencodeConfig());
-				break;
-		}
-	}
-
-	return results;
-}
-
 interface DisplayResultsOptions {
 	results: InstallResult[];
+	modules: ModuleDefinition[];
 	dryrun?: boolean;
 	verify?: boolean;
-	showDiff?: boolean;
+	/** Show the differences before installing, in this format */
+	diff?: DiffOptions;
+	snapshotId?: string;
 }
 
 function displayResults({
 	results,
+	modules,
 	dryrun = false,
 	verify = true,
-	showDiff = false,
+	diff,
+	snapshotId,
 }: DisplayResultsOptions): void {
+	if (!isTextOutput()) {
+		// The patch file is written all the same, only the text is left out
+		if (diff?.patchFile) {
+			writePatchFile(modules, diff.patchFile, diff.context);
+		}
+		printReport(
+			"install",
+			results.map((result) => ({
+				name: result.name,
+				status: !result.success
+					? "failed"
+					: result.skipped
+						? "skipped"
+						: "passed",
+				message: result.message,
+				details: result,
+				module: modules.find((module) => module.name === result.name),
+			})),
+		);
+		return;
+	}
+
 	// Show diff BEFORE installation if requested
-	if (showDiff) {
-		console.log("Showing differences before installation:\n");
-		showConfigDiffs();
-		console.log();
+	if (diff) {
+		printLine("Showing differences before installation:\n");
+		showConfigDiffs(modules, diff);
+		printLine();
 	}
 
 	// Run verification BEFORE installation if verify is enabled
 	if (verify) {
-		const itemsToVerify = results.map((r) => r.name);
-		const verifyResults = getVerifyResults(itemsToVerify);
-
-		console.log("Current installation status:\n");
-		displayVerifyResults(verifyResults);
+		printLine("Current installation status:\n");
+		displayVerifyResults(modules.map(verifyModule));
 	}
 
 	let allSucceeded = true;
@@ -518,9 +903,9 @@ function displayResults({
 
 		const reset = "\x1b[0m";
 
-		console.log(`${color}${status}${reset} ${result.name}`);
+		printLine(`${color}${status}${reset} ${result.name}`);
 		if (result.message) {
-			console.log(`  ${result.message}`);
+			printLine(`  ${result.message}`);
 		}
 
 		if (!result.success) {
@@ -528,305 +913,164 @@ function displayResults({
 		}
 	}
 
-	console.log();
+	printLine();
+	if (snapshotId) {
+		printLine(
+			`Previous state saved to snapshot ${snapshotId} (undo with \`dotfiles rollback\`)\n`,
+		);
+	}
+
 	if (dryrun) {
-		console.log("\x1b[36m[DRY RUN] No files were modified.\x1b[0m");
+		printLine("\x1b[36m[DRY RUN] No files were modified.\x1b[0m");
 	} else if (allSucceeded && !hasSkipped) {
-		console.log("\x1b[32m✓ All configurations installed successfully!\x1b[0m");
+		printLine("\x1b[32m✓ All configurations installed successfully!\x1b[0m");
 	} else if (allSucceeded && hasSkipped) {
-		console.log(
+		printLine(
 			"\x1b[33m✓ Installation complete (some files were skipped).\x1b[0m",
 		);
 	} else {
-		console.log("\x1b[31m✗ Some configurations failed to install.\x1b[0m");
+		printLine("\x1b[31m✗ Some configurations failed to install.\x1b[0m");
 		process.exit(1);
 	}
 }
 
-export const installCommand = new Command("install").description(
-	"Install configuration files from repo to system",
-);
-
-// Default action when no subcommand is provided
-installCommand
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((options) => {
-		const dryrun = options.dryrun || false;
-		const force = options.force || false;
-		const merge = options.merge || false;
-		const verify = options.verify !== false;
-		const showDiff = options.diff || false;
-		const from = options.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing all configurations from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
+function addInstallOptions(command: Command): Command {
+	command
+		.option(
+			"-d, --dryrun",
+			"Show what would be installed without actually installing",
+		)
+		.option("-f, --force", "Force overwrite existing files")
+		.option(
+			"-l, --link",
+			"Symlink configurations to the repo instead of copying them",
+		)
+		.option(
+			"-m, --merge",
+			"Merge JSON and TOML files if they already exist (without overwriting conflicting keys)",
+		)
+		.option(
+			"--patch",
+			"Choose the hunks to install interactively, like `git add -p`",
+		)
+		.option("--no-verify", "Skip verification after installation")
+		.option("--diff", "Show differences before installation");
+	return addDiffOptions(command)
+		.option(
+			"--from <backup>",
+			"Install from a specific backup ID (e.g., 2024-01-15T09-30-00, or a date for the newest backup that day)",
+		)
+		.option(
+			"--allow-corrupted",
+			"Install from a backup even if it fails its integrity check",
 		);
-		displayResults({
-			results: installAll(dryrun, force, from, merge),
-			dryrun,
-			verify,
-			showDiff,
-		});
-	});
+}
 
-// Subcommand: install all
-installCommand
-	.command("all")
-	.description("Install all configurations")
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		const force = options.force || parentOptions.force || false;
-		const merge = options.merge || parentOptions.merge || false;
-		const verify = options.verify !== false && parentOptions.verify !== false;
-		const showDiff = options.diff || parentOptions.diff || false;
-		const from = options.from || parentOptions.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing all configurations from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({
-			results: installAll(dryrun, force, from, merge),
-			dryrun,
-			verify,
-			showDiff,
-		});
-	});
+/**
+ * Refuse to restore modules from a backup whose files fail verification
+ */
+function checkBackupIntegrity(backupId: string, modules: ModuleDefinition[]) {
+	const problems = verifyBackup(backupId).problems.filter((problem) =>
+		modules.some(
+			(module) =>
+				problem.path === module.repoPath ||
+				problem.path.startsWith(`${module.repoPath}/`),
+		),
+	);
+
+	if (problems.length === 0) {
+		return;
+	}
 
-// Subcommand: install helix
-installCommand
-	.command("helix")
-	.alias("hx")
-	.description("Install Helix configuration")
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		const force = options.force || parentOptions.force || false;
-		const merge = options.merge || parentOptions.merge || false;
-		const verify = options.verify !== false && parentOptions.verify !== false;
-		const showDiff = options.diff || parentOptions.diff || false;
-		const from = options.from || parentOptions.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing Helix configuration from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({
-			results: [installHelix(dryrun, force, from, merge)],
-			dryrun,
-			verify,
-			showDiff,
-		});
-	});
+	const out = getTextStream();
+	writeText(
+		`\x1b[31m✗ Backup ${backupId} failed its integrity check:\x1b[0m\n`,
+		out,
+	);
+	for (const problem of problems) {
+		out.write(`  ${problem.path}: ${problem.message}\n`);
+	}
+	out.write("\nUse --allow-corrupted to install from it anyway.\n");
+	process.exit(1);
+}
 
-// Subcommand: install tmux
-installCommand
-	.command("tmux")
-	.description("Install tmux configuration")
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		const force = options.force || parentOptions.force || false;
-		const merge = options.merge || parentOptions.merge || false;
-		const verify = options.verify !== false && parentOptions.verify !== false;
-		const showDiff = options.diff || parentOptions.diff || false;
-		const from = options.from || parentOptions.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing tmux configuration from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
+/**
+ * Install the given modules using the options of the command and its parent
+ */
+function runInstall(cmd: Command, modules: ModuleDefinition[], what: string) {
+	const options = cmd.opts();
+	const parentOptions = cmd.parent?.opts() || {};
+	const installOptions: InstallOptions = {
+		dryrun: options.dryrun || parentOptions.dryrun || false,
+		force: options.force || parentOptions.force || false,
+		merge: options.merge || parentOptions.merge || false,
+		link: options.link || parentOptions.link || false,
+		from: options.from || parentOptions.from,
+	};
+	if (options.patch || parentOptions.patch) {
+		installOptions.patch = { quit: false };
+	}
+	if (installOptions.from) {
+		const backupId = resolveBackupId(installOptions.from);
+		installOptions.from = backupId ?? installOptions.from;
+
+		const allowCorrupted =
+			options.allowCorrupted || parentOptions.allowCorrupted || false;
+		if (backupId && !allowCorrupted) {
+			checkBackupIntegrity(backupId, modules);
+		}
+	}
+	if (!installOptions.dryrun) {
+		installOptions.snapshot = startSnapshot();
+	}
+	const verify = options.verify !== false && parentOptions.verify !== false;
+	const diffOptions = getDiffOptions(cmd);
+	const showDiff =
+		options.diff || parentOptions.diff || diffOptions.patchFile !== undefined;
+	const { dryrun, from } = installOptions;
+	const sourceDesc = from ? `backup (${from})` : "repo";
+	if (isTextOutput()) {
+		printLine(
+			`Installing ${what} from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
 		);
-		displayResults({
-			results: [installTmux(dryrun, force, from, merge)],
-			dryrun,
-			verify,
-			showDiff,
-		});
+	}
+	const results = modules.map((module) =>
+		installModule(module, installOptions),
+	);
+	displayResults({
+		results,
+		modules,
+		dryrun,
+		verify,
+		diff: showDiff ? diffOptions : undefined,
+		snapshotId: installOptions.snapshot?.snapshot?.id,
 	});
+}
 
-// Subcommand: install bashrc
-installCommand
-	.command("bashrc")
-	.alias("bash")
-	.description("Install bashrc configuration")
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		const force = options.force || parentOptions.force || false;
-		const merge = options.merge || parentOptions.merge || false;
-		const verify = options.verify !== false && parentOptions.verify !== false;
-		const showDiff = options.diff || parentOptions.diff || false;
-		const from = options.from || parentOptions.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing bashrc configuration from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({
-			results: [installBashrc(dryrun, force, from, merge)],
-			dryrun,
-			verify,
-			showDiff,
-		});
-	});
+export const installCommand = new Command("install").description(
+	"Install configuration files from repo to system",
+);
 
-// Subcommand: install zed
-installCommand
-	.command("zed")
-	.description("Install Zed configuration")
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		const force = options.force || parentOptions.force || false;
-		const merge = options.merge || parentOptions.merge || false;
-		const verify = options.verify !== false && parentOptions.verify !== false;
-		const showDiff = options.diff || parentOptions.diff || false;
-		const from = options.from || parentOptions.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing Zed configuration from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({
-			results: [installZed(dryrun, force, from, merge)],
-			dryrun,
-			verify,
-			showDiff,
-		});
-	});
+// Default action when no subcommand is provided
+addInstallOptions(installCommand).action((_, cmd) => {
+	runInstall(cmd, getModules(), "all configurations");
+});
 
-// Subcommand: install opencode
-installCommand
-	.command("opencode")
-	.description("Install opencode configuration")
-	.option(
-		"-d, --dryrun",
-		"Show what would be installed without actually installing",
-	)
-	.option("-f, --force", "Force overwrite existing files")
-	.option(
-		"-m, --merge",
-		"Merge JSON files if they already exist (without overwriting conflicting keys)",
-	)
-	.option("--no-verify", "Skip verification after installation")
-	.option("--diff", "Show differences before installation")
-	.option(
-		"--from <backup>",
-		"Install from a specific backup (e.g., 2024-01-15)",
-	)
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		const force = options.force || parentOptions.force || false;
-		const merge = options.merge || parentOptions.merge || false;
-		const verify = options.verify !== false && parentOptions.verify !== false;
-		const showDiff = options.diff || parentOptions.diff || false;
-		const from = options.from || parentOptions.from;
-		const sourceDesc = from ? `backup (${from})` : "repo";
-		console.log(
-			`Installing opencode configuration from ${sourceDesc} to system${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({
-			results: [installOpencode(dryrun, force, from, merge)],
-			dryrun,
-			verify,
-			showDiff,
-		});
+// Subcommand: install all
+addInstallOptions(
+	installCommand.command("all").description("Install all configurations"),
+).action((_, cmd) => {
+	runInstall(cmd, getModules(), "all configurations");
+});
+
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	addInstallOptions(
+		installCommand
+			.command(module.name)
+			.aliases(module.aliases)
+			.description(`Install ${module.label} configuration`),
+	).action((_, cmd) => {
+		runInstall(cmd, [module], `${module.label} configuration`);
 	});
+}
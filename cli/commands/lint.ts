@@ -0,0 +1,120 @@
+import { Command } from "commander";
+import {
+	formatLintProblem,
+	getLintFiles,
+	type LintSide,
+	lintFile,
+	validateModule,
+} from "../utils/lint.ts";
+import { getModules, type ModuleDefinition } from "../utils/manifest.ts";
+import { printLine } from "../utils/terminal.ts";
+
+function addLintOptions(command: Command): Command {
+	return command
+		.option("--repo", "Only lint the repo copies")
+		.option("--system", "Only lint the installed copies");
+}
+
+/**
+ * Parse every config file of the given modules and print the problems,
+ * exiting with 1 when there are errors
+ */
+function runLint(cmd: Command, modules: ModuleDefinition[]) {
+	const options = cmd.opts();
+	const parentOptions = cmd.parent?.opts() || {};
+	const repo = options.repo || parentOptions.repo;
+	const system = options.system || parentOptions.system;
+	const sides: LintSide[] =
+		repo && !system
+			? ["repo"]
+			: system && !repo
+				? ["system"]
+				: ["repo", "system"];
+
+	let fileCount = 0;
+	let errorCount = 0;
+	let warningCount = 0;
+
+	for (const module of modules) {
+		// Validator problems are listed with the file they are about
+		let validation = validateModule(module, sides);
+		const files = getLintFiles(module, sides).map(({ path, label }) => {
+			const problems = [
+				...lintFile(path, label),
+				...validation.filter((problem) => problem.file === label),
+			];
+			validation = validation.filter((problem) => problem.file !== label);
+			return { label, problems };
+		});
+		files.push(
+			...validation.map((problem) => ({
+				label: problem.file,
+				problems: [problem],
+			})),
+		);
+
+		for (const { label, problems } of files) {
+			fileCount++;
+			if (problems.length === 0) {
+				printLine(`\x1b[32m✓\x1b[0m ${label}`);
+				continue;
+			}
+
+			for (const problem of problems) {
+				if (problem.severity === "error") {
+					printLine(`\x1b[31m✗\x1b[0m ${formatLintProblem(problem)}`);
+					errorCount++;
+				} else {
+					printLine(`\x1b[33m⚠\x1b[0m ${formatLintProblem(problem)}`);
+					warningCount++;
+				}
+			}
+		}
+	}
+
+	printLine();
+	if (errorCount > 0) {
+		printLine(
+			`\x1b[31m✗ ${errorCount} error(s) and ${warningCount} warning(s) in ${fileCount} file(s)\x1b[0m`,
+		);
+		process.exit(1);
+	}
+	if (warningCount > 0) {
+		printLine(
+			`\x1b[33m⚠ ${fileCount} file(s) parsed, ${warningCount} warning(s)\x1b[0m`,
+		);
+	} else {
+		printLine(`\x1b[32m✓ ${fileCount} file(s) parsed without problems\x1b[0m`);
+	}
+}
+
+export const lintCommand = new Command("lint").description(
+	"Parse the repo and installed config files and report syntax errors",
+);
+
+// Default action when no subcommand is provided
+addLintOptions(lintCommand).action((_, cmd) => {
+	printLine("Linting all configurations...\n");
+	runLint(cmd, getModules());
+});
+
+// Subcommand: lint all
+addLintOptions(
+	lintCommand.command("all").description("Lint all configurations"),
+).action((_, cmd) => {
+	printLine("Linting all configurations...\n");
+	runLint(cmd, getModules());
+});
+
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	addLintOptions(
+		lintCommand
+			.command(module.name)
+			.aliases(module.aliases)
+			.description(`Lint ${module.label} configuration`),
+	).action((_, cmd) => {
+		printLine(`Linting ${module.label}...\n`);
+		runLint(cmd, [module]);
+	});
+}
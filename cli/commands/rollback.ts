@@ -0,0 +1,182 @@
+import { Command } from "commander";
+import { findModule } from "../utils/manifest.ts";
+import {
+	listSnapshots,
+	loadSnapshot,
+	removeSnapshotEntry,
+	restoreSnapshotEntry,
+	type Snapshot,
+	type SnapshotEntry,
+} from "../utils/snapshot.ts";
+import { printLine } from "../utils/terminal.ts";
+
+interface RollbackResult {
+	name: string;
+	success: boolean;
+	message?: string;
+}
+
+interface RollbackOptions {
+	dryrun: boolean;
+	snapshot?: string;
+}
+
+function describeRestore(entry: SnapshotEntry, dryrun: boolean): string {
+	switch (entry.kind) {
+		case "missing":
+			return `${dryrun ? "Would remove" : "Removed"} ${entry.systemPath} (it did not exist before)`;
+		case "symlink":
+			return `${dryrun ? "Would restore" : "Restored"} link ${entry.systemPath} → ${entry.linkTarget}`;
+		default:
+			return `${dryrun ? "Would restore" : "Restored"} ${entry.kind} ${entry.systemPath}`;
+	}
+}
+
+function describeEntry(entry: SnapshotEntry, dryrun: boolean): string {
+	const created = entry.createdFiles ?? [];
+	return created.length > 0
+		? `${describeRestore(entry, dryrun)}, ${dryrun ? "would remove" : "removed"} ${created.join(", ")}`
+		: describeRestore(entry, dryrun);
+}
+
+function rollbackEntry(
+	snapshot: Snapshot,
+	entry: SnapshotEntry,
+	dryrun: boolean,
+): RollbackResult {
+	try {
+		if (!dryrun) {
+			restoreSnapshotEntry(snapshot, entry);
+			removeSnapshotEntry(snapshot, entry);
+		}
+
+		return {
+			name: entry.module,
+			success: true,
+			message: describeEntry(entry, dryrun),
+		};
+	} catch (error) {
+		return {
+			name: entry.module,
+			success: false,
+			message: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Find the snapshot to roll back: the requested one, or the newest one
+ * (containing the module, when a module is given)
+ */
+function findSnapshot(
+	moduleName: string | undefined,
+	id: string | undefined,
+): Snapshot | undefined {
+	if (id) {
+		return loadSnapshot(id);
+	}
+	return listSnapshots().find(
+		(snapshot) =>
+			!moduleName ||
+			snapshot.entries.some((entry) => entry.module === moduleName),
+	);
+}
+
+function displayResults(results: RollbackResult[], dryrun: boolean): void {
+	let allSucceeded = true;
+
+	for (const result of results) {
+		const status = result.success ? "✓" : "✗";
+		const color = result.success ? "\x1b[32m" : "\x1b[31m";
+		const reset = "\x1b[0m";
+
+		printLine(`${color}${status}${reset} ${result.name}`);
+		if (result.message) {
+			printLine(`  ${result.message}`);
+		}
+
+		if (!result.success) {
+			allSucceeded = false;
+		}
+	}
+
+	printLine();
+	if (dryrun) {
+		printLine("\x1b[36m[DRY RUN] No files were modified.\x1b[0m");
+	} else if (allSucceeded) {
+		printLine("\x1b[32m✓ Rollback complete!\x1b[0m");
+	} else {
+		printLine("\x1b[31m✗ Some configurations failed to roll back.\x1b[0m");
+		process.exit(1);
+	}
+}
+
+export const rollbackCommand = new Command("rollback")
+	.description(
+		"Restore the system to the state it was in before the last install",
+	)
+	.argument("[module]", "Only roll back this module")
+	.option("-d, --dryrun", "Show what would be restored without restoring it")
+	.option("-s, --snapshot <id>", "Roll back a specific snapshot")
+	.option("-l, --list", "List the available snapshots")
+	.action((moduleArg: string | undefined, options) => {
+		const { dryrun = false, snapshot: snapshotId }: RollbackOptions = options;
+
+		if (options.list) {
+			const snapshots = listSnapshots();
+			if (snapshots.length === 0) {
+				printLine("No snapshots found.");
+			}
+			for (const snapshot of snapshots) {
+				printLine(
+					`${snapshot.id}  ${snapshot.entries.map((e) => e.module).join(", ")}`,
+				);
+			}
+			return;
+		}
+
+		const module = moduleArg ? findModule(moduleArg) : undefined;
+		if (moduleArg && !module) {
+			printLine(`\x1b[31m✗ Unknown module: ${moduleArg}\x1b[0m`);
+			process.exit(1);
+		}
+
+		let snapshot: Snapshot | undefined;
+		try {
+			snapshot = findSnapshot(module?.name, snapshotId);
+		} catch (error) {
+			printLine(
+				`\x1b[31m✗ ${error instanceof Error ? error.message : String(error)}\x1b[0m`,
+			);
+			process.exit(1);
+		}
+
+		if (!snapshot) {
+			printLine(
+				`\x1b[33m⚠ No snapshot found${module ? ` for ${module.name}` : ""}.\x1b[0m`,
+			);
+			process.exit(1);
+		}
+
+		const entries = snapshot.entries.filter(
+			(entry) => !module || entry.module === module.name,
+		);
+		if (entries.length === 0) {
+			printLine(
+				`\x1b[33m⚠ Snapshot ${snapshot.id} has no entry for ${module?.name}.\x1b[0m`,
+			);
+			process.exit(1);
+		}
+
+		printLine(
+			`Rolling back to snapshot ${snapshot.id}${dryrun ? " (dry run)" : ""}...\n`,
+		);
+		const current = snapshot;
+		// Undone in reverse install order, so the parent directories an earlier
+		// entry created are empty again by the time they are removed
+		const results = [...entries]
+			.reverse()
+			.map((entry) => rollbackEntry(current, entry, dryrun))
+			.reverse();
+		displayResults(results, dryrun);
+	});
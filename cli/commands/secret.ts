@@ -0,0 +1,107 @@
+import { readFileSync } from "node:fs";
+import { Command } from "commander";
+import { getModules } from "../utils/manifest.ts";
+import {
+	getModuleSecretReferences,
+	getSecret,
+	listSecretNames,
+	setSecret,
+} from "../utils/secrets.ts";
+import { printLine } from "../utils/terminal.ts";
+
+function fail(error: unknown): never {
+	printLine(
+		`\x1b[31m✗ ${error instanceof Error ? error.message : String(error)}\x1b[0m`,
+	);
+	process.exit(1);
+}
+
+function setSecretAction(name: string, value: string | undefined) {
+	try {
+		// Reading from stdin keeps the value out of the shell history
+		if (value === undefined) {
+			if (process.stdin.isTTY) {
+				throw new Error(
+					`Pass the value on stdin, e.g. \`printf %s "$TOKEN" | dotfiles secret set ${name}\``,
+				);
+			}
+			value = readFileSync(0, "utf-8").replace(/\r?\n$/, "");
+		}
+		setSecret(name, value);
+		printLine(`\x1b[32m✓ Stored secret ${name}\x1b[0m`);
+	} catch (error) {
+		fail(error);
+	}
+}
+
+function getSecretAction(name: string) {
+	try {
+		process.stdout.write(`${getSecret(name)}\n`);
+	} catch (error) {
+		fail(error);
+	}
+}
+
+function listSecretsAction() {
+	try {
+		const names = listSecretNames();
+		const usage = new Map<string, string[]>();
+		for (const module of getModules()) {
+			for (const name of getModuleSecretReferences(module)) {
+				usage.set(name, [...(usage.get(name) ?? []), module.name]);
+			}
+		}
+
+		for (const name of names) {
+			const modules = usage.get(name);
+			printLine(
+				`\x1b[32m✓\x1b[0m ${name}${modules ? `  (${modules.join(", ")})` : "  \x1b[2m(unused)\x1b[0m"}`,
+			);
+		}
+		// Placeholders that install would fail to resolve
+		for (const [name, modules] of usage) {
+			if (!names.includes(name)) {
+				printLine(
+					`\x1b[31m✗\x1b[0m ${name}  (${modules.join(", ")}) \x1b[31mnot set\x1b[0m`,
+				);
+			}
+		}
+		if (names.length === 0 && usage.size === 0) {
+			printLine("No secrets found.");
+		}
+	} catch (error) {
+		fail(error);
+	}
+}
+
+export const secretCommand = new Command("secret").description(
+	"Manage secrets stored encrypted in secrets.json (passphrase from $DOTFILES_PASSPHRASE)",
+);
+
+// Subcommand: secret set
+secretCommand
+	.command("set")
+	.description("Encrypt and store a secret (value from stdin when omitted)")
+	.argument("<name>", "Secret name, referenced as {{secret:<name>}} in configs")
+	.argument("[value]", "Secret value")
+	.action((name: string, value: string | undefined) => {
+		setSecretAction(name, value);
+	});
+
+// Subcommand: secret get
+secretCommand
+	.command("get")
+	.description("Print a decrypted secret")
+	.argument("<name>", "Secret name")
+	.action((name: string) => {
+		getSecretAction(name);
+	});
+
+// Subcommand: secret list
+secretCommand
+	.command("list")
+	.alias("ls")
+	.description("List stored secrets and the modules that use them")
+	.action(() => {
+		listSecretsAction();
+	});
@@ -0,0 +1,187 @@
+import { existsSync } from "node:fs";
+import { join, relative } from "node:path";
+import { Command } from "commander";
+import { fileExists } from "../utils/fs-helper.ts";
+import {
+	classifyFile,
+	getConflictPath,
+	getFileRecord,
+	getModuleFilePairs,
+} from "../utils/install-state.ts";
+import {
+	getModules,
+	getSystemPath,
+	type ModuleDefinition,
+} from "../utils/manifest.ts";
+import { printLine } from "../utils/terminal.ts";
+
+/**
+ * State of one managed file
+ * - clean: repo and system match, or neither changed since the last install
+ * - modified-system: edited on the system since the last install or sync
+ * - modified-repo: changed in the repo since the last install or sync
+ * - modified-both: changed on both sides (or differs with no install record)
+ * - conflicted: install left an unresolved `<file>.conflict` next to it
+ * - missing: in the repo but not on the system
+ * - untracked: on the system (inside a managed directory) but not in the repo
+ */
+type FileStatusCode =
+	| "clean"
+	| "modified-system"
+	| "modified-repo"
+	| "modified-both"
+	| "conflicted"
+	| "missing"
+	| "untracked";
+
+interface FileStatus {
+	/** System path as written in dotfiles.json, e.g. ~/.config/helix/config.toml */
+	path: string;
+	code: FileStatusCode;
+}
+
+interface ModuleStatusReport {
+	module: ModuleDefinition;
+	files: FileStatus[];
+}
+
+/** git-style two-column codes: repo side, then system side */
+const SHORT_CODES: Record<FileStatusCode, string> = {
+	clean: "  ",
+	"modified-system": " M",
+	"modified-repo": "M ",
+	"modified-both": "MM",
+	conflicted: "UU",
+	missing: " D",
+	untracked: "??",
+};
+
+const DESCRIPTIONS: Record<FileStatusCode, string> = {
+	clean: "clean",
+	"modified-system": "modified on system",
+	"modified-repo": "modified in repo",
+	"modified-both": "modified in repo and on system",
+	conflicted: "unresolved conflict (.conflict)",
+	missing: "missing on system",
+	untracked: "untracked on system",
+};
+
+function getFileStatusCode(
+	repoFile: string,
+	systemFile: string,
+	conflictPath: string,
+): FileStatusCode {
+	if (!fileExists(systemFile)) {
+		return "missing";
+	}
+	if (existsSync(conflictPath)) {
+		return "conflicted";
+	}
+	if (!fileExists(repoFile) && !getFileRecord(systemFile)) {
+		return "untracked";
+	}
+
+	switch (classifyFile(repoFile, systemFile)) {
+		case "unchanged":
+			return "clean";
+		case "repo-ahead":
+			return "modified-repo";
+		case "system-ahead":
+			return "modified-system";
+		case "conflicted":
+			return "modified-both";
+	}
+}
+
+function getModuleStatusReport(module: ModuleDefinition): ModuleStatusReport {
+	const systemPath = getSystemPath(module);
+
+	return {
+		module,
+		files: getModuleFilePairs(module).map(({ repoFile, systemFile }) => ({
+			path:
+				module.type === "directory"
+					? join(module.systemPath, relative(systemPath, systemFile))
+					: module.systemPath,
+			// The conflict of a block is written next to the file holding it
+			code: getFileStatusCode(
+				repoFile,
+				systemFile,
+				getConflictPath(module.merge === "block" ? systemPath : systemFile),
+			),
+		})),
+	};
+}
+
+function displayStatus(reports: ModuleStatusReport[], short: boolean): void {
+	for (const { module, files } of reports) {
+		if (short) {
+			for (const file of files) {
+				if (file.code !== "clean") {
+					printLine(`${SHORT_CODES[file.code]} ${file.path}`);
+				}
+			}
+			continue;
+		}
+
+		printLine(`\x1b[1m${module.label}\x1b[0m`);
+		if (files.length === 0) {
+			printLine("  \x1b[2m(no files)\x1b[0m");
+		}
+		for (const file of files) {
+			const color = file.code === "clean" ? "\x1b[32m" : "\x1b[33m";
+			const label = `${DESCRIPTIONS[file.code]}:`.padEnd(32);
+			printLine(`  ${color}${label}\x1b[0m ${file.path}`);
+		}
+		printLine();
+	}
+}
+
+/**
+ * Print the status of the given modules and exit with 1 if any file drifted
+ */
+function runStatus(cmd: Command, modules: ModuleDefinition[]): void {
+	const options = cmd.opts();
+	const parentOptions = cmd.parent?.opts() || {};
+	const short = options.short || parentOptions.short || false;
+
+	const reports = modules.map(getModuleStatusReport);
+	displayStatus(reports, short);
+
+	const clean = reports.every((report) =>
+		report.files.every((file) => file.code === "clean"),
+	);
+	if (!clean) {
+		process.exit(1);
+	}
+}
+
+export const statusCommand = new Command("status")
+	.description(
+		"Show which managed files changed in the repo or on the system (exits 1 if any did)",
+	)
+	.option("-s, --short", "Only list changed files, with git-style codes")
+	.action((_, cmd) => {
+		runStatus(cmd, getModules());
+	});
+
+// Subcommand: status all
+statusCommand
+	.command("all")
+	.description("Show the status of all configurations")
+	.option("-s, --short", "Only list changed files, with git-style codes")
+	.action((_, cmd) => {
+		runStatus(cmd, getModules());
+	});
+
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	statusCommand
+		.command(module.name)
+		.aliases(module.aliases)
+		.description(`Show the status of ${module.label} configuration`)
+		.option("-s, --short", "Only list changed files, with git-style codes")
+		.action((_, cmd) => {
+			runStatus(cmd, [module]);
+		});
+}
@@ -1,11 +1,64 @@
-import { copyFileSync, existsSync, mkdirSync, readdirSync } from "node:fs";
-import { homedir } from "node:os";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { relative } from "node:path";
 import { Command } from "commander";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import {
+	copyDirectory,
+	copyFile,
+	ensureParentDir,
+	fileExists,
+	hashFile,
+	readTextFile,
+} from "../utils/fs-helper.ts";
+import {
+	getBaseContent,
+	getModuleFilePairs,
+	recordConflict,
+	recordModuleFiles,
+} from "../utils/install-state.ts";
+import {
+	diffJsonValues,
+	getDefinedDepth,
+	overlayJsonc,
+	parseJsonc,
+	removeJsoncProperty,
+} from "../utils/json-helper.ts";
+import { isLinkedToRepo } from "../utils/link.ts";
+import { getInstalledPath } from "../utils/managed-block.ts";
+import {
+	describeSourcePath,
+	getModules,
+	getOverlayPaths,
+	getSourcePath,
+	getSystemPath,
+	getTemplatePath,
+	type ModuleDefinition,
+	repoRoot,
+} from "../utils/manifest.ts";
+import { choosePatchHunks, type PatchSession } from "../utils/patch.ts";
+import { isTextOutput, printReport } from "../utils/report.ts";
+import {
+	type FileSecrets,
+	getAllowlistPath,
+	maskSecret,
+	redactModuleSecrets,
+	scanModuleSecrets,
+} from "../utils/secret-scanner.ts";
+import {
+	getModuleSecretReferences,
+	getSecretsPath,
+	getSecretValues,
+	hasPassphrase,
+	restoreModulePlaceholders,
+	restoreSecretPlaceholders,
+	storeFoundSecrets,
+} from "../utils/secrets.ts";
+import {
+	getRenderedSourcePath,
+	renderModuleTemplate,
+	writeBackToTemplate,
+} from "../utils/template.ts";
+import { printLine } from "../utils/terminal.ts";
+import { mergeText, planModuleMerge } from "../utils/text-merge.ts";
 
 interface SyncResult {
 	name: string;
@@ -13,227 +66,499 @@ interface SyncResult {
 	message?: string;
 }
 
-function copyDirectory(src: string, dest: string): void {
-	if (!existsSync(dest)) {
-		mkdirSync(dest, { recursive: true });
-	}
-
-	const entries = readdirSync(src, { withFileTypes: true });
-
-	for (const entry of entries) {
-		// Skip .git directories
-		if (entry.name === ".git") {
-			continue;
+/**
+ * Three-way merge the system copy into the repo, using the repo copy of the
+ * last install or sync as the base. Conflicts are written into the repo file
+ * as git-style markers, to be resolved before committing.
+ */
+function mergeTextModule(
+	module: ModuleDefinition,
+	dryrun: boolean,
+): SyncResult {
+	const plan = planModuleMerge(module, "sync");
+	const changes = plan.filter(
+		(file) =>
+			file.action === "merged" ||
+			file.action === "conflict" ||
+			file.action === "copy" ||
+			file.action === "no-base",
+	);
+	const conflicts = plan.filter((file) => file.action === "conflict");
+
+	if (!dryrun && changes.length > 0) {
+		for (const file of changes) {
+			if (file.content !== undefined) {
+				writeFileSync(file.target, file.content);
+			} else {
+				copyFile(file.incoming, file.target);
+			}
 		}
-
-		const srcPath = join(src, entry.name);
-		const destPath = join(dest, entry.name);
-
-		if (entry.isDirectory()) {
-			copyDirectory(srcPath, destPath);
-		} else {
-			copyFileSync(srcPath, destPath);
+		recordModuleFiles(module, "sync");
+		for (const file of conflicts) {
+			recordConflict(
+				module,
+				file.incoming,
+				file.target,
+				readTextFile(file.incoming),
+				hashFile(file.incoming),
+				"sync",
+			);
 		}
 	}
+
+	if (conflicts.length > 0) {
+		return {
+			name: module.name,
+			success: false,
+			message: `${dryrun ? "Would leave" : "Left"} conflict markers in: ${conflicts.map((file) => file.target).join(", ")}`,
+		};
+	}
+
+	return {
+		name: module.name,
+		success: true,
+		message:
+			changes.length === 0
+				? "Repo is up to date"
+				: dryrun
+					? `Would merge system changes into ${changes.map((file) => file.target).join(", ")}`
+					: undefined,
+	};
 }
 
-function syncHelix(dryrun = false): SyncResult {
-	try {
-		const repoRoot = join(__dirname, "../..");
-		const source = join(homedir(), ".config", "helix");
-		const dest = join(repoRoot, "configs/helix");
+/**
+ * Write system changes back into a module's template. The system copy is
+ * first merged with the current rendering (against the rendering of the last
+ * install), then the changed lines are applied to the template. Changes to
+ * lines that come from variables or conditions are refused.
+ */
+function syncTemplateModule(
+	module: ModuleDefinition,
+	templatePath: string,
+	dryrun: boolean,
+): SyncResult {
+	const systemPath = getInstalledPath(module);
+	const template = readFileSync(templatePath, "utf-8");
+	const rendered = renderModuleTemplate(module);
+	if (!rendered) {
+		throw new Error(`${templatePath} not found`);
+	}
 
-		if (!existsSync(source)) {
+	const system = readTextFile(systemPath);
+	const base = getBaseContent(systemPath);
+	let content = system;
+	if (base !== undefined) {
+		const merged = mergeText(rendered.text, base, system, {
+			ours: "repo",
+			theirs: "system",
+		});
+		if (merged.conflicts > 0) {
 			return {
-				name: "helix",
+				name: module.name,
 				success: false,
-				message: "~/.config/helix not found",
+				message: `${module.systemPath} and ${describeSourcePath(module)} changed the same lines, edit the template by hand`,
 			};
 		}
+		content = merged.text;
+	}
 
-		if (!dryrun) {
-			copyDirectory(source, dest);
-		}
-
+	if (content === rendered.text) {
 		return {
-			name: "helix",
+			name: module.name,
 			success: true,
-			message: dryrun ? `Would sync: ${source} → ${dest}` : undefined,
+			message: "Template is up to date",
 		};
+	}
+
+	let updated: string;
+	try {
+		updated = writeBackToTemplate(template, rendered, content);
 	} catch (error) {
 		return {
-			name: "helix",
+			name: module.name,
 			success: false,
-			message: error instanceof Error ? error.message : String(error),
+			message: `Cannot write ${module.systemPath} back to its template: ${error instanceof Error ? error.message : String(error)}. Edit the template by hand.`,
 		};
 	}
+
+	if (!dryrun) {
+		writeFileSync(templatePath, updated);
+		recordModuleFiles(module, "sync");
+	}
+
+	return {
+		name: module.name,
+		success: true,
+		message: dryrun
+			? `Would write system changes back to ${describeSourcePath(module)}`
+			: `Wrote system changes back to ${describeSourcePath(module)}`,
+	};
 }
 
-function syncTmux(dryrun = false): SyncResult {
-	try {
-		const repoRoot = join(__dirname, "../..");
-		const source = join(homedir(), ".config", "tmux", "tmux.conf");
-		const dest = join(repoRoot, "configs/tmux/tmux.conf");
+/**
+ * Sync a JSON module whose repo copy is deep merged from several layers.
+ * Each changed value goes back to the highest layer defining it (or its
+ * closest parent object); removed values are removed from every layer.
+ */
+function syncJsonLayers(module: ModuleDefinition, dryrun: boolean): SyncResult {
+	const layerFiles = [getSourcePath(module), ...getOverlayPaths(module)];
+	const layerTexts = layerFiles.map((file) => readFileSync(file, "utf-8"));
+	const layerValues = layerTexts.map(parseJsonc);
+
+	const composed = parseJsonc(readTextFile(getRenderedSourcePath(module)));
+	const system = parseJsonc(readFileSync(getSystemPath(module), "utf-8"));
+	const changes = diffJsonValues(composed, system);
+
+	// Values to set and paths to remove, per layer
+	const updates = layerFiles.map(() => ({
+		// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+		set: {} as Record<string, any>,
+		remove: [] as string[][],
+	}));
+
+	for (const change of changes) {
+		if (change.removed) {
+			layerValues.forEach((value, index) => {
+				if (getDefinedDepth(value, change.path) === change.path.length) {
+					updates[index].remove.push(change.path);
+				}
+			});
+			continue;
+		}
 
-		if (!existsSync(source)) {
-			return {
-				name: "tmux",
-				success: false,
-				message: "~/.config/tmux/tmux.conf not found",
-			};
+		let target = 0;
+		let deepest = -1;
+		layerValues.forEach((value, index) => {
+			const depth = getDefinedDepth(value, change.path);
+			if (depth > 0 && depth >= deepest) {
+				deepest = depth;
+				target = index;
+			}
+		});
+
+		let node = updates[target].set;
+		for (const key of change.path.slice(0, -1)) {
+			node[key] ??= {};
+			node = node[key];
 		}
+		node[change.path[change.path.length - 1]] = change.value;
+	}
 
+	const written: string[] = [];
+	layerFiles.forEach((file, index) => {
+		const { set, remove } = updates[index];
+		if (Object.keys(set).length === 0 && remove.length === 0) {
+			return;
+		}
+		let text = overlayJsonc(set, layerTexts[index]);
+		for (const path of remove) {
+			text = removeJsoncProperty(text, path);
+		}
 		if (!dryrun) {
-			// Ensure parent directory exists
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
-			}
-			copyFileSync(source, dest);
+			writeFileSync(file, text);
 		}
+		written.push(relative(repoRoot, file));
+	});
 
+	if (!dryrun && written.length > 0) {
+		recordModuleFiles(module, "sync");
+	}
+
+	return {
+		name: module.name,
+		success: true,
+		message:
+			written.length === 0
+				? "Repo is up to date"
+				: `${dryrun ? "Would write" : "Wrote"} changes to ${written.join(", ")}`,
+	};
+}
+
+interface SyncOptions {
+	dryrun: boolean;
+	/** Replace secrets found in system files with placeholders in the repo */
+	redact: boolean;
+	/** Set to ask about each hunk instead of copying whole files */
+	patch?: PatchSession;
+}
+
+/**
+ * Copy or merge a module's system files into the repo
+ */
+function syncModuleFiles(
+	module: ModuleDefinition,
+	dryrun: boolean,
+): SyncResult {
+	const source = getInstalledPath(module);
+	const dest = getSourcePath(module);
+
+	const templatePath = getTemplatePath(module);
+	const overlays = getOverlayPaths(module);
+	if (templatePath && overlays.length > 0) {
 		return {
-			name: "tmux",
-			success: true,
-			message: dryrun ? `Would sync: ${source} → ${dest}` : undefined,
-		};
-	} catch (error) {
-		return {
-			name: "tmux",
+			name: module.name,
 			success: false,
-			message: error instanceof Error ? error.message : String(error),
+			message: `${describeSourcePath(module)} is a template with overlays, edit the layers by hand`,
 		};
 	}
-}
+	if (templatePath) {
+		return syncTemplateModule(module, templatePath, dryrun);
+	}
 
-function syncBashrc(dryrun = false): SyncResult {
-	try {
-		const repoRoot = join(__dirname, "../..");
-		const source = join(homedir(), ".bashrc");
-		const dest = join(repoRoot, "configs/bashrc");
+	if (module.merge === "json" && overlays.length > 0) {
+		return syncJsonLayers(module, dryrun);
+	}
 
-		if (!existsSync(source)) {
-			return {
-				name: "bashrc",
-				success: false,
-				message: "~/.bashrc not found",
-			};
-		}
+	// The block is merged like a text file, leaving the repo changes in place
+	if (module.merge === "text" || module.merge === "block") {
+		return mergeTextModule(module, dryrun);
+	}
 
-		if (!dryrun) {
-			// Ensure parent directory exists
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
+	if (!dryrun) {
+		if (module.type === "directory" && overlays.length > 0) {
+			// Each file goes back to the layer it came from
+			for (const { repoFile, systemFile } of getModuleFilePairs(module)) {
+				if (existsSync(systemFile)) {
+					copyFile(systemFile, repoFile);
+				}
 			}
-			copyFileSync(source, dest);
+		} else if (module.type === "directory") {
+			copyDirectory(source, dest);
+		} else {
+			copyFile(source, dest);
 		}
+		recordModuleFiles(module, "sync");
+	}
 
+	return {
+		name: module.name,
+		success: true,
+		message: dryrun ? `Would sync: ${source} → ${dest}` : undefined,
+	};
+}
+
+/**
+ * Ask about each hunk between the system and the repo files, and write the
+ * chosen ones to the repo. The chosen lines of a rendered template are
+ * written back into the template.
+ */
+function patchSyncModule(
+	module: ModuleDefinition,
+	session: PatchSession,
+	dryrun: boolean,
+	secrets: Map<string, string>,
+): SyncResult {
+	if (session.quit) {
+		return { name: module.name, success: true, message: "Skipped (quit)" };
+	}
+
+	if (module.type === "file" && getOverlayPaths(module).length > 0) {
 		return {
-			name: "bashrc",
-			success: true,
-			message: dryrun ? `Would sync: ${source} → ${dest}` : undefined,
-		};
-	} catch (error) {
-		return {
-			name: "bashrc",
+			name: module.name,
 			success: false,
-			message: error instanceof Error ? error.message : String(error),
+			message: `${describeSourcePath(module)} is layered, edit the layers by hand`,
 		};
 	}
+
+	const templatePath = getTemplatePath(module);
+	const writes: { target: string; content: string }[] = [];
+	let hunks = 0;
+	let applied = 0;
+	for (const { repoFile, systemFile } of getModuleFilePairs(module)) {
+		if (!fileExists(systemFile)) {
+			continue;
+		}
+		const outcome = choosePatchHunks(
+			fileExists(repoFile) ? readTextFile(repoFile) : "",
+			restoreSecretPlaceholders(readTextFile(systemFile), systemFile, secrets),
+			module.type === "file"
+				? describeSourcePath(module)
+				: relative(repoRoot, repoFile),
+			session,
+		);
+		hunks += outcome.hunks;
+		applied += outcome.applied;
+		if (outcome.applied === 0) {
+			continue;
+		}
+
+		// The repo side of a template is its rendering
+		const rendered = templatePath ? renderModuleTemplate(module) : undefined;
+		if (templatePath && rendered) {
+			try {
+				writes.push({
+					target: templatePath,
+					content: writeBackToTemplate(
+						readFileSync(templatePath, "utf-8"),
+						rendered,
+						outcome.content,
+					),
+				});
+			} catch (error) {
+				return {
+					name: module.name,
+					success: false,
+					message: `Cannot write the chosen hunks back to ${describeSourcePath(module)}: ${error instanceof Error ? error.message : String(error)}. Edit the template by hand.`,
+				};
+			}
+		} else {
+			writes.push({ target: repoFile, content: outcome.content });
+		}
+	}
+
+	if (hunks === 0) {
+		return { name: module.name, success: true, message: "Repo is up to date" };
+	}
+
+	if (!dryrun && writes.length > 0) {
+		for (const { target, content } of writes) {
+			ensureParentDir(target);
+			writeFileSync(target, content);
+		}
+		recordModuleFiles(module, "sync");
+	}
+
+	return {
+		name: module.name,
+		success: true,
+		message: `${dryrun ? "Would apply" : "Applied"} ${applied} of ${hunks} hunk(s)`,
+	};
 }
 
-function syncZed(dryrun = false): SyncResult {
-	try {
-		const repoRoot = join(__dirname, "../..");
-		const source = join(homedir(), ".config", "zed", "settings.json");
-		const dest = join(repoRoot, "configs/zed/settings.json");
+/**
+ * List secret findings, one per line, indented under the result
+ */
+function describeSecrets(secrets: FileSecrets[]): string {
+	return secrets
+		.flatMap(({ path, findings }) =>
+			findings.map(
+				(finding) =>
+					`    ${path}:${finding.line}:${finding.column}  ${finding.rule}  ${maskSecret(finding.value)}  (fingerprint ${finding.fingerprint})`,
+			),
+		)
+		.join("\n");
+}
 
-		if (!existsSync(source)) {
+function syncModule(
+	module: ModuleDefinition,
+	{ dryrun, redact, patch }: SyncOptions,
+): SyncResult {
+	try {
+		if (!existsSync(getSystemPath(module))) {
 			return {
-				name: "zed",
+				name: module.name,
 				success: false,
-				message: "~/.config/zed/settings.json not found",
+				message: `${module.systemPath} not found`,
 			};
 		}
 
-		if (!dryrun) {
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
-			}
-			copyFileSync(source, dest);
+		if (module.merge === "block" && !fileExists(getInstalledPath(module))) {
+			return {
+				name: module.name,
+				success: false,
+				message: `${module.systemPath} has no dotfiles block (run install first)`,
+			};
 		}
 
-		return {
-			name: "zed",
-			success: true,
-			message: dryrun ? `Would sync: ${source} → ${dest}` : undefined,
-		};
-	} catch (error) {
-		return {
-			name: "zed",
-			success: false,
-			message: error instanceof Error ? error.message : String(error),
-		};
-	}
-}
+		// The repo copy already is the system copy
+		if (isLinkedToRepo(module)) {
+			return {
+				name: module.name,
+				success: true,
+				message: `${module.systemPath} is linked to the repo, nothing to sync`,
+			};
+		}
 
-function syncOpencode(dryrun = false): SyncResult {
-	try {
-		const repoRoot = join(__dirname, "../..");
-		const source = join(homedir(), ".config", "opencode", "opencode.jsonc");
-		const dest = join(repoRoot, "configs/opencode/opencode.jsonc");
+		// Values of the placeholders in the repo are expected on the system
+		const references = getSecretValues(getModuleSecretReferences(module));
+		const known = new Set(
+			[...references.values()].flatMap((value) => [
+				value,
+				JSON.stringify(value).slice(1, -1),
+			]),
+		);
+		const secrets = scanModuleSecrets(module)
+			.map((file) => ({
+				...file,
+				findings: file.findings.filter((finding) => !known.has(finding.value)),
+			}))
+			.filter((file) => file.findings.length > 0);
+		const count = secrets.reduce((sum, file) => sum + file.findings.length, 0);
+		if (count > 0 && !redact) {
+			return {
+				name: module.name,
+				success: false,
+				message: `Found ${count} possible secret(s), not syncing:\n${describeSecrets(secrets)}\n  Use --redact to replace them with placeholders, or add false positives to ${relative(repoRoot, getAllowlistPath())}`,
+			};
+		}
 
-		if (!existsSync(source)) {
+		// The values replaced by placeholders are stored to install them again
+		if (count > 0 && !hasPassphrase()) {
 			return {
-				name: "opencode",
+				name: module.name,
 				success: false,
-				message: "~/.config/opencode/opencode.jsonc not found",
+				message: `Found ${count} possible secret(s), set DOTFILES_PASSPHRASE so --redact can store their values:\n${describeSecrets(secrets)}`,
 			};
 		}
+		const stored = dryrun ? [] : storeFoundSecrets(secrets);
 
+		const result = patch
+			? patchSyncModule(module, patch, dryrun, references)
+			: syncModuleFiles(module, dryrun);
+		if (!dryrun && restoreModulePlaceholders(module, references)) {
+			recordModuleFiles(module, "sync");
+		}
+		if (count === 0) {
+			return result;
+		}
+
+		// Redact even after a conflict, since the merged files are in the repo
+		let message = `Would redact ${count} secret(s) and store them in ${relative(repoRoot, getSecretsPath())}`;
 		if (!dryrun) {
-			const parentDir = dirname(dest);
-			if (!existsSync(parentDir)) {
-				mkdirSync(parentDir, { recursive: true });
+			const redacted = redactModuleSecrets(module, secrets);
+			if (redacted.length > 0) {
+				recordModuleFiles(module, "sync");
 			}
-			copyFileSync(source, dest);
+			message = `Redacted ${count} secret(s) in ${redacted.join(", ") || "no repo files"}, stored as ${stored.join(", ")}`;
 		}
-
 		return {
-			name: "opencode",
-			success: true,
-			message: dryrun ? `Would sync: ${source} → ${dest}` : undefined,
+			...result,
+			message: result.message ? `${result.message}\n  ${message}` : message,
 		};
 	} catch (error) {
 		return {
-			name: "opencode",
+			name: module.name,
 			success: false,
 			message: error instanceof Error ? error.message : String(error),
 		};
 	}
 }
 
-function syncAll(dryrun = false): SyncResult[] {
-	return [
-		syncHelix(dryrun),
-		syncTmux(dryrun),
-		syncBashrc(dryrun),
-		syncZed(dryrun),
-		syncOpencode(dryrun),
-	];
-}
-
 interface DisplayResultsOptions {
 	results: SyncResult[];
+	modules: ModuleDefinition[];
 	dryrun?: boolean;
 }
 
 function displayResults({
 	results,
+	modules,
 	dryrun = false,
 }: DisplayResultsOptions): void {
+	if (!isTextOutput()) {
+		printReport(
+			"sync",
+			results.map((result) => ({
+				name: result.name,
+				status: result.success ? "passed" : "failed",
+				message: result.message,
+				details: result,
+				module: modules.find((module) => module.name === result.name),
+			})),
+		);
+		return;
+	}
+
 	let allSucceeded = true;
 
 	for (const result of results) {
@@ -241,9 +566,9 @@ function displayResults({
 		const color = result.success ? "\x1b[32m" : "\x1b[31m";
 		const reset = "\x1b[0m";
 
-		console.log(`${color}${status}${reset} ${result.name}`);
+		printLine(`${color}${status}${reset} ${result.name}`);
 		if (result.message) {
-			console.log(`  ${result.message}`);
+			printLine(`  ${result.message}`);
 		}
 
 		if (!result.success) {
@@ -251,119 +576,79 @@ function displayResults({
 		}
 	}
 
-	console.log();
+	printLine();
 	if (dryrun) {
-		console.log("\x1b[36m[DRY RUN] No files were modified.\x1b[0m");
+		printLine("\x1b[36m[DRY RUN] No files were modified.\x1b[0m");
 	} else if (allSucceeded) {
-		console.log("\x1b[32m✓ All configurations synced successfully!\x1b[0m");
+		printLine("\x1b[32m✓ All configurations synced successfully!\x1b[0m");
 	} else {
-		console.log("\x1b[31m✗ Some configurations failed to sync.\x1b[0m");
+		printLine("\x1b[31m✗ Some configurations failed to sync.\x1b[0m");
 		process.exit(1);
 	}
 }
 
-export const syncCommand = new Command("sync")
-	.description("Sync configuration files from system to repo")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing");
-
-// Default action when no subcommand is provided
-syncCommand.action((options) => {
-	// When no subcommand, show help or run all
-	const dryrun = options.dryrun || false;
-	console.log(
-		`Syncing all configurations from system to repo${dryrun ? " (dry run)" : ""}...\n`,
-	);
-	displayResults({ results: syncAll(dryrun), dryrun });
-});
-
-// Subcommand: sync all
-syncCommand
-	.command("all")
-	.description("Sync all configurations")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing")
-	.action((_, cmd) => {
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		console.log(
-			`Syncing all configurations from system to repo${dryrun ? " (dry run)" : ""}...\n`,
+function addSyncOptions(command: Command): Command {
+	return command
+		.option(
+			"-d, --dryrun",
+			"Show what would be synced without actually syncing",
+		)
+		.option(
+			"--redact",
+			"Replace secrets found in system files with {{secret:name}} placeholders",
+		)
+		.option(
+			"--patch",
+			"Choose the hunks to sync interactively, like `git add -p`",
 		);
-		displayResults({ results: syncAll(dryrun), dryrun });
-	});
+}
 
-// Subcommand: sync helix
-syncCommand
-	.command("helix")
-	.alias("hx")
-	.description("Sync Helix configuration")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing")
-	.action((_, cmd) => {
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		console.log(
-			`Syncing Helix configuration from system to repo${dryrun ? " (dry run)" : ""}...\n`,
+function runSync(cmd: Command, modules: ModuleDefinition[], what: string) {
+	const options = cmd.opts();
+	const parentOptions = cmd.parent?.opts() || {};
+	const syncOptions: SyncOptions = {
+		dryrun: options.dryrun || parentOptions.dryrun || false,
+		redact: options.redact || parentOptions.redact || false,
+	};
+	if (options.patch || parentOptions.patch) {
+		syncOptions.patch = { quit: false };
+	}
+	if (isTextOutput()) {
+		printLine(
+			`Syncing ${what} from system to repo${syncOptions.dryrun ? " (dry run)" : ""}...\n`,
 		);
-		displayResults({ results: [syncHelix(dryrun)], dryrun });
+	}
+	displayResults({
+		results: modules.map((module) => syncModule(module, syncOptions)),
+		modules,
+		dryrun: syncOptions.dryrun,
 	});
+}
 
-// Subcommand: sync tmux
-syncCommand
-	.command("tmux")
-	.description("Sync tmux configuration")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing")
-	.action((_, cmd) => {
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		console.log(
-			`Syncing tmux configuration from system to repo${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({ results: [syncTmux(dryrun)], dryrun });
-	});
+export const syncCommand = new Command("sync").description(
+	"Sync configuration files from system to repo",
+);
 
-// Subcommand: sync bashrc
-syncCommand
-	.command("bashrc")
-	.alias("bash")
-	.description("Sync bashrc configuration")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing")
-	.action((_, cmd) => {
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		console.log(
-			`Syncing bashrc configuration from system to repo${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({ results: [syncBashrc(dryrun)], dryrun });
-	});
+// Default action when no subcommand is provided
+addSyncOptions(syncCommand).action((_, cmd) => {
+	runSync(cmd, getModules(), "all configurations");
+});
 
-// Subcommand: sync zed
-syncCommand
-	.command("zed")
-	.description("Sync Zed configuration")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing")
-	.action((_, cmd) => {
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		console.log(
-			`Syncing Zed configuration from system to repo${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({ results: [syncZed(dryrun)], dryrun });
-	});
+// Subcommand: sync all
+addSyncOptions(
+	syncCommand.command("all").description("Sync all configurations"),
+).action((_, cmd) => {
+	runSync(cmd, getModules(), "all configurations");
+});
 
-// Subcommand: sync opencode
-syncCommand
-	.command("opencode")
-	.description("Sync opencode configuration")
-	.option("-d, --dryrun", "Show what would be synced without actually syncing")
-	.action((_, cmd) => {
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const dryrun = options.dryrun || parentOptions.dryrun || false;
-		console.log(
-			`Syncing opencode configuration from system to repo${dryrun ? " (dry run)" : ""}...\n`,
-		);
-		displayResults({ results: [syncOpencode(dryrun)], dryrun });
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	addSyncOptions(
+		syncCommand
+			.command(module.name)
+			.aliases(module.aliases)
+			.description(`Sync ${module.label} configuration`),
+	).action((_, cmd) => {
+		runSync(cmd, [module], `${module.label} configuration`);
 	});
+}
@@ -0,0 +1,82 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Command } from "commander";
+import { ensureParentDir } from "../utils/fs-helper.ts";
+import { repoRoot } from "../utils/manifest.ts";
+import { printLine } from "../utils/terminal.ts";
+import { buildTheme, loadThemeDefinition } from "../utils/theme.ts";
+
+/**
+ * Generate the theme files from theme.json, or with `check` only compare
+ * them with the committed files, exiting with 1 when any is out of date
+ */
+function buildThemeAction(options: { check?: boolean; dryrun?: boolean }) {
+	let outputs: ReturnType<typeof buildTheme>;
+	try {
+		outputs = buildTheme(loadThemeDefinition());
+	} catch (error) {
+		printLine(
+			`\x1b[31m✗ ${error instanceof Error ? error.message : String(error)}\x1b[0m`,
+		);
+		process.exit(1);
+	}
+
+	let changed = 0;
+	for (const { path, content } of outputs) {
+		const fullPath = join(repoRoot, path);
+		const current = existsSync(fullPath)
+			? readFileSync(fullPath, "utf-8")
+			: undefined;
+
+		if (current === content) {
+			printLine(`\x1b[32m✓\x1b[0m ${path}`);
+			continue;
+		}
+
+		changed++;
+		if (options.check) {
+			printLine(
+				`\x1b[31m✗\x1b[0m ${path} ${current === undefined ? "is missing" : "does not match theme.json"}`,
+			);
+		} else if (options.dryrun) {
+			printLine(`\x1b[33m~\x1b[0m ${path} (would be written)`);
+		} else {
+			ensureParentDir(fullPath);
+			writeFileSync(fullPath, content);
+			printLine(`\x1b[33m~\x1b[0m ${path} (written)`);
+		}
+	}
+
+	printLine();
+	if (options.check && changed > 0) {
+		printLine(
+			`\x1b[31m✗ ${changed} file(s) out of date, run \`dotfiles theme build\`\x1b[0m`,
+		);
+		process.exit(1);
+	} else if (options.check) {
+		printLine("\x1b[32m✓ Theme files match theme.json\x1b[0m");
+	} else if (options.dryrun) {
+		printLine("\x1b[36m[DRY RUN] No files were modified.\x1b[0m");
+	} else {
+		printLine(`\x1b[32m✓ Theme built (${changed} file(s) updated)\x1b[0m`);
+	}
+}
+
+export const themeCommand = new Command("theme").description(
+	"Generate the helix and tmux colors from the palette in theme.json",
+);
+
+// Subcommand: theme build
+themeCommand
+	.command("build")
+	.description(
+		"Write the helix theme files and the tmux color block from theme.json",
+	)
+	.option(
+		"--check",
+		"Only check that the committed files match theme.json (exits with 1 when not)",
+	)
+	.option("-d, --dryrun", "Show which files would change without writing them")
+	.action((options) => {
+		buildThemeAction(options);
+	});
@@ -1,13 +1,41 @@
 import { execSync } from "node:child_process";
-import { existsSync, readFileSync } from "node:fs";
-import { homedir } from "node:os";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
+import { existsSync } from "node:fs";
 import { Command } from "commander";
-import { showConfigDiffs } from "../utils/show-config-diffs.ts";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { fileExists } from "../utils/fs-helper.ts";
+import { classifyModule, getModuleRecords } from "../utils/install-state.ts";
+import { getModuleStatus } from "../utils/link.ts";
+import {
+	formatLintProblem,
+	type LintProblem,
+	lintModule,
+} from "../utils/lint.ts";
+import {
+	getInstalledPath,
+	getModuleForeignLines,
+} from "../utils/managed-block.ts";
+import {
+	describeSourcePath,
+	expandHome,
+	findTool,
+	getModules,
+	getTools,
+	type ModuleDefinition,
+	type ToolDefinition,
+} from "../utils/manifest.ts";
+import {
+	isTextOutput,
+	printReport,
+	type ReportEntry,
+} from "../utils/report.ts";
+import {
+	addDiffOptions,
+	type DiffOptions,
+	getDiffOptions,
+	showConfigDiffs,
+	writePatchFile,
+} from "../utils/show-config-diffs.ts";
+import { printLine } from "../utils/terminal.ts";
+import { compareVersions, getCommandVersion } from "../utils/version.ts";
 
 export interface VerifyResult {
 	name: string;
@@ -16,6 +44,25 @@ export interface VerifyResult {
 	warning?: boolean;
 	optional?: boolean;
 	installUrl?: string;
+	/** Version of the tool, when it declares a minVersion */
+	version?: string;
+	/** Installed, but older than the tool's minVersion */
+	outdated?: boolean;
+	/** Name of the tool in dotfiles.json, for tool checks */
+	tool?: string;
+	/** Syntax problems found in the installed config files */
+	problems?: LintProblem[];
+}
+
+/**
+ * Whether a result passes: installed, recent enough and parsing without errors
+ */
+function isVerified(result: VerifyResult): boolean {
+	return (
+		result.installed &&
+		!result.outdated &&
+		!result.problems?.some((problem) => problem.severity === "error")
+	);
 }
 
 function checkCommand(command: string): boolean {
@@ -27,242 +74,289 @@ function checkCommand(command: string): boolean {
 	}
 }
 
-// Individual verification functions
-function verifyHelix(): VerifyResult {
-	return {
-		name: "Helix IDE (hx)",
-		installed: checkCommand("hx"),
-		installUrl: "https://docs.helix-editor.com/install.html",
-	};
-}
-
-function verifyTmux(): VerifyResult {
-	return {
-		name: "tmux",
-		installed: checkCommand("tmux"),
-		installUrl: "https://github.com/tmux/tmux/wiki/Installing",
-	};
+/**
+ * Compare the version of an installed tool against its minVersion
+ */
+function checkToolVersion(
+	tool: ToolDefinition,
+	minVersion: string,
+	result: VerifyResult,
+): VerifyResult {
+	const version = getCommandVersion(
+		tool.versionCommand ?? `${tool.command} --version`,
+	);
+
+	if (!version) {
+		return {
+			...result,
+			warning: true,
+			message: `could not determine the version (${minVersion} or later required)`,
+		};
+	}
+	if (compareVersions(version, minVersion) < 0) {
+		return {
+			...result,
+			version,
+			outdated: true,
+			message: `installed but too old (${version} < ${minVersion})`,
+		};
+	}
+	return { ...result, version, message: `version ${version}` };
 }
 
-function verifyNvm(): VerifyResult {
-	const nvmPath = join(homedir(), ".nvm");
-	return {
-		name: "nvm",
-		installed: existsSync(nvmPath),
-		message: existsSync(nvmPath) ? undefined : "~/.nvm not found",
-		installUrl: "https://github.com/nvm-sh/nvm#installing-and-updating",
-	};
-}
+/**
+ * Verify that a tool declared in dotfiles.json is available, and recent
+ * enough when it declares a minVersion
+ */
+export function verifyTool(tool: ToolDefinition): VerifyResult {
+	let installed: boolean;
+	let message: string | undefined;
 
-function verifyFzf(): VerifyResult {
-	return {
-		name: "fzf",
-		installed: checkCommand("fzf"),
-		installUrl: "https://github.com/junegunn/fzf#installation",
-	};
-}
+	if (tool.command) {
+		installed = checkCommand(tool.command);
+	} else {
+		installed = existsSync(expandHome(tool.path as string));
+		message = installed ? undefined : `${tool.path} not found`;
+	}
 
-function verifyZoxide(): VerifyResult {
-	const zoxidePath = join(homedir(), ".local", "bin", "zoxide");
-	return {
-		name: "zoxide",
-		installed: existsSync(zoxidePath),
-		message: existsSync(zoxidePath)
-			? undefined
-			: "~/.local/bin/zoxide not found",
-		installUrl: "https://github.com/ajeetdsouza/zoxide#installation",
-	};
-}
+	if (!installed && tool.hint) {
+		message = tool.hint;
+	}
 
-function verifyStarship(): VerifyResult {
-	return {
-		name: "starship",
-		installed: checkCommand("starship"),
-		installUrl: "https://starship.rs/guide/#-installation",
+	const result: VerifyResult = {
+		name: tool.label,
+		installed,
+		message,
+		optional: tool.optional || undefined,
+		installUrl: tool.installUrl,
+		tool: tool.name,
 	};
+	return installed && tool.minVersion
+		? checkToolVersion(tool, tool.minVersion, result)
+		: result;
 }
 
-function verifyBashrc(): VerifyResult {
-	const bashrcPath = join(homedir(), ".bashrc");
-	const configBashrcPath = join(__dirname, "../../configs/bashrc");
-
-	if (!existsSync(bashrcPath)) {
+/**
+ * Explain how a module differs from the repo, using the install state to tell
+ * which side changed since the last install or sync
+ */
+function describeDivergence(
+	module: ModuleDefinition,
+	source: string,
+): VerifyResult {
+	if (Object.keys(getModuleRecords(module)).length === 0) {
+		// Merged JSON configs are expected to differ from the repo copy
 		return {
-			name: "bashrc",
-			installed: false,
-			message: "~/.bashrc not found",
+			name: module.name,
+			installed: true,
+			warning: module.merge !== "json" || undefined,
+			message:
+				module.merge !== "json"
+					? `⚠️  ${module.systemPath} exists but differs from ${source} - may need sync`
+					: `diverged from ${source}`,
 		};
 	}
 
-	// Check if contents match
-	try {
-		const installedContent = readFileSync(bashrcPath, "utf-8");
-		const configContent = readFileSync(configBashrcPath, "utf-8");
-
-		if (installedContent !== configContent) {
+	switch (classifyModule(module)) {
+		case "unchanged":
+			return {
+				name: module.name,
+				installed: true,
+				message: `unchanged since last install (differs from ${source} as installed, e.g. merged)`,
+			};
+		case "repo-ahead":
 			return {
-				name: "bashrc",
+				name: module.name,
 				installed: true,
 				warning: true,
-				message:
-					"⚠️  ~/.bashrc exists but differs from configs/bashrc - may need sync",
+				message: `⚠️  ${source} changed since last install - may need install`,
+			};
+		case "system-ahead":
+			return {
+				name: module.name,
+				installed: true,
+				warning: true,
+				message: `⚠️  ${module.systemPath} edited since last install - may need sync`,
+			};
+		case "conflicted":
+			return {
+				name: module.name,
+				installed: true,
+				warning: true,
+				message: `⚠️  ${module.systemPath} and ${source} both changed since last install`,
 			};
-		}
-
-		return {
-			name: "bashrc",
-			installed: true,
-		};
-	} catch (error) {
-		return {
-			name: "bashrc",
-			installed: true,
-			warning: true,
-			message: `Error comparing bashrc: ${error instanceof Error ? error.message : String(error)}`,
-		};
 	}
 }
 
-function verifyZedConfig(): VerifyResult {
-	const zedConfigPath = join(homedir(), ".config", "zed", "settings.json");
-
-	if (!existsSync(zedConfigPath)) {
-		return {
-			name: "zed",
-			installed: false,
-			message: "~/.config/zed/settings.json not found",
-		};
-	}
-
-	return {
-		name: "zed",
-		installed: true,
-	};
+/**
+ * Count of the lines outside the block of a block managed file, which are
+ * not compared with the repo
+ */
+function describeForeignLines(module: ModuleDefinition): string {
+	const count = getModuleForeignLines(module).length;
+	return count > 0
+		? ` (${count} foreign line(s) outside the dotfiles block)`
+		: "";
 }
 
-function verifyOpencodeConfig(): VerifyResult {
-	const opencodePath = join(homedir(), ".config", "opencode", "opencode.jsonc");
-
-	if (!existsSync(opencodePath)) {
-		return {
-			name: "opencode",
-			installed: false,
-			message: "~/.config/opencode/opencode.jsonc not found",
-		};
+/**
+ * Verify that a module's configuration is installed on the system and report
+ * whether it is linked to the repo, an identical copy, or has diverged, then
+ * lint the installed files.
+ */
+export function verifyModule(module: ModuleDefinition): VerifyResult {
+	const result = verifyModuleInstall(module);
+	if (!result.installed) {
+		return result;
 	}
-
-	return {
-		name: "opencode",
-		installed: true,
-	};
+	const problems = lintModule(module, ["system"]);
+	return problems.length > 0 ? { ...result, problems } : result;
 }
 
-function verifyHelixConfig(): VerifyResult {
-	const helixConfigPath = join(homedir(), ".config", "helix");
+function verifyModuleInstall(module: ModuleDefinition): VerifyResult {
+	const source = describeSourcePath(module);
 
-	if (!existsSync(helixConfigPath)) {
-		return {
-			name: "helix",
-			installed: false,
-			message: "~/.config/helix not found",
-		};
-	}
-
-	return {
-		name: "helix",
-		installed: true,
-	};
-}
+	try {
+		const status = getModuleStatus(module);
 
-function verifyTmuxConfig(): VerifyResult {
-	const tmuxConfigPath = join(homedir(), ".config", "tmux", "tmux.conf");
+		if (
+			module.merge === "block" &&
+			status.state !== "missing" &&
+			!fileExists(getInstalledPath(module))
+		) {
+			return {
+				name: module.name,
+				installed: false,
+				message: `${module.systemPath} has no dotfiles block`,
+			};
+		}
 
-	if (!existsSync(tmuxConfigPath)) {
+		switch (status.state) {
+			case "missing":
+				return {
+					name: module.name,
+					installed: false,
+					message: `${module.systemPath} not found`,
+				};
+			case "linked":
+				return {
+					name: module.name,
+					installed: true,
+					message: `linked → ${source}`,
+				};
+			case "foreign-link":
+				return {
+					name: module.name,
+					installed: true,
+					warning: true,
+					message: `⚠️  ${module.systemPath} is a symlink to ${status.linkTarget}, not ${source}`,
+				};
+			case "copied":
+				return {
+					name: module.name,
+					installed: true,
+					message: `copied from ${source}${describeForeignLines(module)}`,
+				};
+			case "diverged": {
+				const result = describeDivergence(module, source);
+				return {
+					...result,
+					message: `${result.message}${describeForeignLines(module)}`,
+				};
+			}
+		}
+	} catch (error) {
 		return {
-			name: "tmux",
-			installed: false,
-			message: "~/.config/tmux/tmux.conf not found",
+			name: module.name,
+			installed: true,
+			warning: true,
+			message: `Error comparing ${module.name}: ${error instanceof Error ? error.message : String(error)}`,
 		};
 	}
-
-	return {
-		name: "tmux",
-		installed: true,
-	};
-}
-
-// Optional/recommended tools
-function verifyGh(): VerifyResult {
-	const installed = checkCommand("gh");
-	return {
-		name: "gh (GitHub CLI)",
-		installed,
-		optional: true,
-		message: installed
-			? undefined
-			: "💡 Recommended: Install for GitHub Copilot integration",
-		installUrl: "https://cli.github.com/manual/installation",
-	};
 }
 
-function verifyHtop(): VerifyResult {
-	const installed = checkCommand("htop");
-	return {
-		name: "htop",
-		installed,
-		optional: true,
-		message: installed
-			? undefined
-			: "💡 Recommended: Install for better system monitoring",
-		installUrl: "https://github.com/htop-dev/htop",
-	};
+/**
+ * Verify a module's tool (if it declares one) and its configuration
+ */
+function verifyModuleWithTool(module: ModuleDefinition): VerifyResult[] {
+	const tool = module.tool ? findTool(module.tool) : undefined;
+	return tool
+		? [verifyTool(tool), verifyModule(module)]
+		: [verifyModule(module)];
 }
 
 function verifyAll(): VerifyResult[] {
+	const tools = getTools();
 	return [
-		verifyHelix(),
-		verifyTmux(),
-		verifyNvm(),
-		verifyFzf(),
-		verifyZoxide(),
-		verifyStarship(),
-		verifyBashrc(),
-		verifyZedConfig(),
-		verifyOpencodeConfig(),
-		verifyGh(),
-		verifyHtop(),
+		...tools.filter((tool) => !tool.optional).map(verifyTool),
+		...getModules().map(verifyModule),
+		...tools.filter((tool) => tool.optional).map(verifyTool),
 	];
 }
 
 interface DisplayResultsOptions {
 	results: VerifyResult[];
-	showDiff?: boolean;
+	/** Show the differences of the modules, in this format */
+	diff?: DiffOptions;
+	modules?: ModuleDefinition[];
+}
+
+/**
+ * Report verify results for --output: optional tools that are missing are
+ * skipped, and module checks carry a summary of the files that differ
+ */
+function reportResults(results: VerifyResult[]): void {
+	const entries: ReportEntry[] = results.map((result) => ({
+		name: result.name,
+		status: isVerified(result)
+			? "passed"
+			: result.optional
+				? "skipped"
+				: "failed",
+		message: result.message,
+		details: result,
+		module: result.tool
+			? undefined
+			: getModules().find((module) => module.name === result.name),
+	}));
+	printReport("verify", entries);
 }
 
 function displayResults({
 	results,
-	showDiff = false,
+	diff,
+	modules,
 }: DisplayResultsOptions): void {
+	if (!isTextOutput()) {
+		// The patch file is written all the same, only the text is left out
+		if (diff?.patchFile) {
+			writePatchFile(modules ?? getModules(), diff.patchFile, diff.context);
+		}
+		reportResults(results);
+		return;
+	}
+
 	let allInstalled = true;
 	let hasWarnings = false;
 
 	for (const result of results) {
 		// Optional tools don't affect overall status
-		if (result.optional && !result.installed) {
+		if (result.optional && !isVerified(result)) {
 			const color = "\x1b[36m"; // Cyan for optional
 			const reset = "\x1b[0m";
-			console.log(`${color}○${reset} ${result.name}`);
+			printLine(`${color}○${reset} ${result.name}`);
 			if (result.message) {
-				console.log(`  ${result.message}`);
+				printLine(`  ${result.message}`);
 			}
 			if (result.installUrl) {
-				console.log(`  📦 Install: ${result.installUrl}`);
+				printLine(`  📦 Install: ${result.installUrl}`);
 			}
 			continue;
 		}
 
-		const status = result.installed ? "✓" : "✗";
-		let color = result.installed ? "\x1b[32m" : "\x1b[31m";
+		const ok = isVerified(result);
+		const status = ok ? "✓" : "✗";
+		let color = ok ? "\x1b[32m" : "\x1b[31m";
 
 		// Use yellow for warnings
 		if (result.warning) {
@@ -272,186 +366,125 @@ function displayResults({
 
 		const reset = "\x1b[0m";
 
-		console.log(`${color}${status}${reset} ${result.name}`);
+		printLine(`${color}${status}${reset} ${result.name}`);
 		if (result.message) {
-			console.log(`  ${result.message}`);
+			printLine(`  ${result.message}`);
+		}
+		for (const problem of result.problems ?? []) {
+			printLine(`  ${formatLintProblem(problem)}`);
 		}
 
-		// Show install URL if not installed (and not a warning-only case)
-		if (!result.installed && result.installUrl) {
-			console.log(`  📦 Install: ${result.installUrl}`);
+		// Show install URL if not installed or too old (and not a warning-only case)
+		if (!ok && result.installUrl) {
+			printLine(`  📦 Install: ${result.installUrl}`);
 		}
 
-		if (!result.installed && !result.optional) {
+		if (!ok && !result.optional) {
 			allInstalled = false;
 		}
 	}
 
-	console.log();
+	printLine();
 
 	// Show diff if requested (before potential exit)
-	if (showDiff) {
-		console.log("\nShowing differences:\n");
-		showConfigDiffs();
-		console.log();
+	if (diff) {
+		printLine("\nShowing differences:\n");
+		showConfigDiffs(modules, diff);
+		printLine();
 	}
 
 	if (allInstalled && !hasWarnings) {
-		console.log("\x1b[32m✓ All configurations verified successfully!\x1b[0m");
+		printLine("\x1b[32m✓ All configurations verified successfully!\x1b[0m");
 	} else if (allInstalled && hasWarnings) {
-		console.log(
+		printLine(
 			"\x1b[33m⚠ All configurations installed but some have warnings.\x1b[0m",
 		);
 	} else {
-		console.log(
+		printLine(
 			"\x1b[33m⚠ Some configurations are missing or not properly installed.\x1b[0m",
 		);
 		process.exit(1);
 	}
 }
 
-export const verifyCommand = new Command("verify")
-	.description("Verify configuration files are correctly installed")
-	.option("--diff", "Show differences between repo and installed configs")
-	.action((options) => {
-		console.log("Verifying configurations...\n");
-		displayResults({
-			results: verifyAll(),
-			showDiff: options.diff,
-		});
-	});
-
-// Subcommand: verify all
-verifyCommand
-	.command("all")
-	.description("Verify all configurations")
-	.option("--diff", "Show differences between repo and installed configs")
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const showDiff = options.diff || parentOptions.diff || false;
-		console.log("Verifying all configurations...\n");
-		displayResults({
-			results: verifyAll(),
-			showDiff,
-		});
-	});
-
-// Subcommand: verify helix
-verifyCommand
-	.command("helix")
-	.alias("hx")
-	.description("Verify Helix IDE installation")
-	.action(() => {
-		console.log("Verifying Helix IDE...\n");
-		displayResults({ results: [verifyHelix()] });
-	});
-
-// Subcommand: verify tmux
-verifyCommand
-	.command("tmux")
-	.description("Verify tmux installation")
-	.action(() => {
-		console.log("Verifying tmux...\n");
-		displayResults({ results: [verifyTmux()] });
-	});
-
-// Subcommand: verify nvm
-verifyCommand
-	.command("nvm")
-	.description("Verify nvm installation")
-	.action(() => {
-		console.log("Verifying nvm...\n");
-		displayResults({ results: [verifyNvm()] });
-	});
-
-// Subcommand: verify fzf
-verifyCommand
-	.command("fzf")
-	.description("Verify fzf installation")
-	.action(() => {
-		console.log("Verifying fzf...\n");
-		displayResults({ results: [verifyFzf()] });
-	});
+/**
+ * The diff options when --diff (or --patch-file) is given
+ */
+function getShowDiff(cmd: Command): DiffOptions | undefined {
+	const options = cmd.opts();
+	const parentOptions = cmd.parent?.opts() || {};
+	const diffOptions = getDiffOptions(cmd);
+	return options.diff || parentOptions.diff || diffOptions.patchFile
+		? diffOptions
+		: undefined;
+}
 
-// Subcommand: verify zoxide
-verifyCommand
-	.command("zoxide")
-	.description("Verify zoxide installation")
-	.action(() => {
-		console.log("Verifying zoxide...\n");
-		displayResults({ results: [verifyZoxide()] });
+export const verifyCommand = addDiffOptions(
+	new Command("verify")
+		.description("Verify configuration files are correctly installed")
+		.option("--diff", "Show differences between repo and installed configs"),
+).action((_, cmd) => {
+	if (isTextOutput()) {
+		printLine("Verifying configurations...\n");
+	}
+	displayResults({
+		results: verifyAll(),
+		diff: getShowDiff(cmd),
 	});
+});
 
-// Subcommand: verify starship
-verifyCommand
-	.command("starship")
-	.description("Verify starship installation")
-	.action(() => {
-		console.log("Verifying starship...\n");
-		displayResults({ results: [verifyStarship()] });
+// Subcommand: verify all
+addDiffOptions(
+	verifyCommand
+		.command("all")
+		.description("Verify all configurations")
+		.option("--diff", "Show differences between repo and installed configs"),
+).action((_, cmd) => {
+	if (isTextOutput()) {
+		printLine("Verifying all configurations...\n");
+	}
+	displayResults({
+		results: verifyAll(),
+		diff: getShowDiff(cmd),
 	});
-
-// Subcommand: verify bashrc
-verifyCommand
-	.command("bashrc")
-	.alias("bash")
-	.description("Verify bashrc installation and content")
-	.option("--diff", "Show differences between repo and installed configs")
-	.action((...args) => {
-		const cmd = args[args.length - 1];
-		const options = cmd.opts();
-		const parentOptions = cmd.parent?.opts() || {};
-		const showDiff = options.diff || parentOptions.diff || false;
-		console.log("Verifying bashrc...\n");
+});
+
+// Subcommands generated from the modules in dotfiles.json
+for (const module of getModules()) {
+	addDiffOptions(
+		verifyCommand
+			.command(module.name)
+			.aliases(module.aliases)
+			.description(`Verify ${module.label} installation and configuration`)
+			.option("--diff", "Show differences between repo and installed configs"),
+	).action((_, cmd) => {
+		if (isTextOutput()) {
+			printLine(`Verifying ${module.label}...\n`);
+		}
 		displayResults({
-			results: [verifyBashrc()],
-			showDiff,
+			results: verifyModuleWithTool(module),
+			diff: getShowDiff(cmd),
+			modules: [module],
 		});
 	});
+}
 
-// Subcommand: verify gh
-verifyCommand
-	.command("gh")
-	.description("Verify GitHub CLI installation (optional)")
-	.action(() => {
-		console.log("Verifying GitHub CLI...\n");
-		displayResults({ results: [verifyGh()] });
-	});
-
-// Subcommand: verify htop
-verifyCommand
-	.command("htop")
-	.description("Verify htop installation (optional)")
-	.action(() => {
-		console.log("Verifying htop...\n");
-		displayResults({ results: [verifyHtop()] });
-	});
-
-// Subcommand: verify zed
-verifyCommand
-	.command("zed")
-	.description("Verify Zed configuration")
-	.action(() => {
-		console.log("Verifying Zed configuration...\n");
-		displayResults({ results: [verifyZedConfig()] });
-	});
-
-// Subcommand: verify opencode
-verifyCommand
-	.command("opencode")
-	.description("Verify opencode configuration")
-	.action(() => {
-		console.log("Verifying opencode configuration...\n");
-		displayResults({ results: [verifyOpencodeConfig()] });
-	});
+// Subcommands for tools that are not tied to a module
+for (const tool of getTools()) {
+	if (getModules().some((module) => module.tool === tool.name)) {
+		continue;
+	}
 
-// Export verification functions for use in other commands
-export {
-	verifyHelixConfig,
-	verifyTmuxConfig,
-	verifyBashrc,
-	verifyZedConfig,
-	verifyOpencodeConfig,
-};
+	verifyCommand
+		.command(tool.name)
+		.aliases(tool.aliases)
+		.description(
+			`Verify ${tool.label} installation${tool.optional ? " (optional)" : ""}`,
+		)
+		.action(() => {
+			if (isTextOutput()) {
+				printLine(`Verifying ${tool.label}...\n`);
+			}
+			displayResults({ results: [verifyTool(tool)] });
+		});
+}
@@ -5,9 +5,18 @@ import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { Command } from "commander";
 import { backupCommand } from "./commands/backup.ts";
+import { diffCommand } from "./commands/diff.ts";
 import { installCommand } from "./commands/install.ts";
+import { lintCommand } from "./commands/lint.ts";
+import { rollbackCommand } from "./commands/rollback.ts";
+import { secretCommand } from "./commands/secret.ts";
+import { statusCommand } from "./commands/status.ts";
 import { syncCommand } from "./commands/sync.ts";
+import { themeCommand } from "./commands/theme.ts";
 import { verifyCommand } from "./commands/verify.ts";
+import { setProfile } from "./utils/manifest.ts";
+import { setOutputFormat } from "./utils/report.ts";
+import { printLine } from "./utils/terminal.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -21,11 +30,41 @@ const program = new Command();
 program
 	.name("dotfiles")
 	.description("CLI to manage dotfiles and system configurations")
-	.version(packageJson.version);
+	.version(packageJson.version)
+	.option(
+		"-p, --profile <name>",
+		"Layer configs/profiles/<name>/ over the base configs (default: $DOTFILES_PROFILE)",
+	)
+	.option(
+		"-o, --output <format>",
+		"Report results as text (default), json, junit or tap (verify, install, sync and backup)",
+	)
+	.hook("preAction", () => {
+		const { profile, output } = program.opts();
+		try {
+			if (profile) {
+				setProfile(profile);
+			}
+			if (output) {
+				setOutputFormat(output);
+			}
+		} catch (error) {
+			printLine(
+				`\x1b[31m✗ ${error instanceof Error ? error.message : String(error)}\x1b[0m`,
+			);
+			process.exit(1);
+		}
+	});
 
 program.addCommand(installCommand);
 program.addCommand(syncCommand);
 program.addCommand(verifyCommand);
 program.addCommand(backupCommand);
+program.addCommand(diffCommand);
+program.addCommand(lintCommand);
+program.addCommand(rollbackCommand);
+program.addCommand(statusCommand);
+program.addCommand(secretCommand);
+program.addCommand(themeCommand);
 
 program.parse();
@@ -0,0 +1,308 @@
+import {
+	existsSync,
+	lstatSync,
+	readdirSync,
+	readFileSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { join, relative } from "node:path";
+import { hashFile } from "./fs-helper.ts";
+import { getModules, repoRoot } from "./manifest.ts";
+
+export interface BackupFile {
+	/** Path relative to the backup folder */
+	path: string;
+	size: number;
+}
+
+/** One file recorded in a backup's manifest */
+export interface BackupManifestFile {
+	/** Path relative to the backup folder */
+	path: string;
+	/** Path the file was copied from */
+	source: string;
+	size: number;
+	mode: number;
+	sha256: string;
+}
+
+export interface BackupManifest {
+	id: string;
+	createdAt: string;
+	files: BackupManifestFile[];
+}
+
+export type BackupProblemKind =
+	| "missing"
+	| "unexpected"
+	| "size"
+	| "mode"
+	| "checksum";
+
+export interface BackupProblem {
+	path: string;
+	kind: BackupProblemKind;
+	message: string;
+}
+
+export interface BackupVerification {
+	/** False for backups made before manifests were written */
+	hasManifest: boolean;
+	problems: BackupProblem[];
+}
+
+export const BACKUP_MANIFEST_FILE = "backup-manifest.json";
+
+export interface BackupInfo {
+	id: string;
+	date: Date;
+	/** Names of the modules present in the backup */
+	modules: string[];
+	size: number;
+}
+
+export function getBackupsDir(): string {
+	return join(repoRoot, "backups");
+}
+
+export function getBackupDir(id: string): string {
+	return join(getBackupsDir(), id);
+}
+
+/**
+ * Parse the date out of a backup ID, either YYYY-MM-DD (older backups)
+ * or YYYY-MM-DDTHH-MM-SS with an optional -N suffix
+ */
+export function parseBackupDate(id: string): Date | null {
+	const match = id.match(
+		/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2})-(\d{2})-(\d{2}))?(?:-\d+)?$/,
+	);
+	if (!match) {
+		return null;
+	}
+	const [, year, month, day, hours = "00", minutes = "00", seconds = "00"] =
+		match;
+	return new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`);
+}
+
+/**
+ * List all files in a backup folder recursively
+ */
+export function getBackupFiles(id: string): BackupFile[] {
+	const backupDir = getBackupDir(id);
+	const files: BackupFile[] = [];
+
+	const walk = (dir: string) => {
+		for (const entry of readdirSync(dir, { withFileTypes: true })) {
+			const fullPath = join(dir, entry.name);
+			if (entry.isDirectory()) {
+				walk(fullPath);
+			} else if (dir !== backupDir || entry.name !== BACKUP_MANIFEST_FILE) {
+				files.push({
+					path: relative(backupDir, fullPath),
+					size: lstatSync(fullPath).size,
+				});
+			}
+		}
+	};
+	walk(backupDir);
+
+	return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function getBackupInfo(id: string): BackupInfo {
+	const backupDir = getBackupDir(id);
+	if (!existsSync(backupDir)) {
+		throw new Error(`Backup ${id} not found`);
+	}
+
+	const files = getBackupFiles(id);
+
+	return {
+		id,
+		date: parseBackupDate(id) ?? lstatSync(backupDir).mtime,
+		modules: getModules()
+			.filter((module) => existsSync(join(backupDir, module.repoPath)))
+			.map((module) => module.name),
+		size: files.reduce((total, file) => total + file.size, 0),
+	};
+}
+
+function compareNewestFirst(a: BackupInfo, b: BackupInfo): number {
+	return b.date.getTime() - a.date.getTime() || b.id.localeCompare(a.id);
+}
+
+/**
+ * All backups in the repo, newest first
+ */
+export function listBackups(): BackupInfo[] {
+	const backupsDir = getBackupsDir();
+	if (!existsSync(backupsDir)) {
+		return [];
+	}
+
+	return readdirSync(backupsDir, { withFileTypes: true })
+		.filter((entry) => entry.isDirectory())
+		.map((entry) => getBackupInfo(entry.name))
+		.sort(compareNewestFirst);
+}
+
+/**
+ * Resolve a backup ID as given on the command line. An exact ID wins,
+ * otherwise a prefix such as a date picks the newest matching backup.
+ */
+export function resolveBackupId(idOrPrefix: string): string | undefined {
+	if (existsSync(getBackupDir(idOrPrefix))) {
+		return idOrPrefix;
+	}
+	return listBackups().find((backup) => backup.id.startsWith(idOrPrefix))?.id;
+}
+
+/**
+ * Pick the backups a retention policy does not keep.
+ * `keepLast` keeps the newest N backups, `keepDaily` keeps the newest backup
+ * of each of the N most recent days that have backups.
+ */
+export function selectBackupsToPrune(
+	backups: BackupInfo[],
+	keepLast = 0,
+	keepDaily = 0,
+): BackupInfo[] {
+	const newestFirst = [...backups].sort(compareNewestFirst);
+	const keep = new Set<string>(
+		newestFirst.slice(0, keepLast).map((backup) => backup.id),
+	);
+
+	const days = new Set<string>();
+	for (const backup of newestFirst) {
+		const day = backup.date.toISOString().split("T")[0];
+		if (days.has(day)) {
+			continue;
+		}
+		if (days.size >= keepDaily) {
+			break;
+		}
+		days.add(day);
+		keep.add(backup.id);
+	}
+
+	return newestFirst.filter((backup) => !keep.has(backup.id));
+}
+
+export function formatSize(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Describe a file that was just copied into a backup
+ */
+export function createManifestFile(
+	backupDir: string,
+	backupPath: string,
+	source: string,
+): BackupManifestFile {
+	const stat = statSync(backupPath);
+	return {
+		path: relative(backupDir, backupPath),
+		source,
+		size: stat.size,
+		mode: statSync(source).mode & 0o7777,
+		sha256: hashFile(backupPath),
+	};
+}
+
+export function writeBackupManifest(
+	id: string,
+	files: BackupManifestFile[],
+): void {
+	const manifest: BackupManifest = {
+		id,
+		createdAt: new Date().toISOString(),
+		files: [...files].sort((a, b) => a.path.localeCompare(b.path)),
+	};
+	writeFileSync(
+		join(getBackupDir(id), BACKUP_MANIFEST_FILE),
+		`${JSON.stringify(manifest, null, 2)}\n`,
+	);
+}
+
+export function readBackupManifest(id: string): BackupManifest | null {
+	const file = join(getBackupDir(id), BACKUP_MANIFEST_FILE);
+	if (!existsSync(file)) {
+		return null;
+	}
+	return JSON.parse(readFileSync(file, "utf-8"));
+}
+
+/**
+ * Check a backup's files against its manifest
+ */
+export function verifyBackup(id: string): BackupVerification {
+	if (!existsSync(getBackupDir(id))) {
+		throw new Error(`Backup ${id} not found`);
+	}
+
+	const manifest = readBackupManifest(id);
+	if (!manifest) {
+		return { hasManifest: false, problems: [] };
+	}
+
+	const problems: BackupProblem[] = [];
+	const backupDir = getBackupDir(id);
+
+	for (const file of manifest.files) {
+		const path = join(backupDir, file.path);
+
+		if (!existsSync(path)) {
+			problems.push({
+				path: file.path,
+				kind: "missing",
+				message: "missing from backup",
+			});
+			continue;
+		}
+
+		const stat = statSync(path);
+		if (stat.size !== file.size) {
+			problems.push({
+				path: file.path,
+				kind: "size",
+				message: `size is ${stat.size} bytes, expected ${file.size}`,
+			});
+		} else if (hashFile(path) !== file.sha256) {
+			problems.push({
+				path: file.path,
+				kind: "checksum",
+				message: "SHA-256 checksum does not match",
+			});
+		}
+
+		if ((stat.mode & 0o7777) !== file.mode) {
+			problems.push({
+				path: file.path,
+				kind: "mode",
+				message: `mode is ${(stat.mode & 0o7777).toString(8)}, expected ${file.mode.toString(8)}`,
+			});
+		}
+	}
+
+	const recorded = new Set(manifest.files.map((file) => file.path));
+	for (const file of getBackupFiles(id)) {
+		if (!recorded.has(file.path)) {
+			problems.push({
+				path: file.path,
+				kind: "unexpected",
+				message: "not listed in the backup manifest",
+			});
+		}
+	}
+
+	return { hasManifest: true, problems };
+}
@@ -1,38 +1,120 @@
-import type { FileDiff } from "./diff.ts";
+import { type FileDiff, type JsonDiffEntry, splitChangeLines } from "./diff.ts";
+import { describeSyncState } from "./install-state.ts";
 
 /**
- * Display diff results in terminal using colors
+ * Render diff results with colors, with `context` unchanged lines around
+ * each change
  */
-export function displayDiff(diffs: FileDiff[]): void {
+export function renderDiff(diffs: FileDiff[], context = 3): string {
+	const out: string[] = [];
 	const diffsWithChanges = diffs.filter(
 		(diff) =>
 			diff.onlyInRepo ||
 			diff.onlyInSystem ||
+			(diff.jsonChanges
+				? diff.jsonChanges.length > 0
+				: diff.changes.some((c) => c.added || c.removed)),
+	);
+	// JSON files whose values match are not listed, only counted
+	const formattingOnly = diffs.filter(
+		(diff) =>
+			diff.jsonChanges?.length === 0 &&
 			diff.changes.some((c) => c.added || c.removed),
 	);
 
 	if (diffsWithChanges.length === 0) {
-		console.log("\x1b[32m✓ No differences found\x1b[0m");
-		return;
+		out.push("\x1b[32m✓ No differences found\x1b[0m");
+	} else {
+		out.push(`\nFound ${diffsWithChanges.length} file(s) with differences:\n`);
+
+		for (const diff of diffsWithChanges) {
+			renderFileDiff(out, diff, context);
+		}
+	}
+
+	for (const diff of formattingOnly) {
+		out.push(
+			`\x1b[2m${diff.installedPath}: only formatting or comments differ\x1b[0m`,
+		);
+	}
+	if (formattingOnly.length > 0) {
+		out.push("");
 	}
 
-	console.log(`\nFound ${diffsWithChanges.length} file(s) with differences:\n`);
+	renderForeignLines(out, diffs);
+	return `${out.join("\n")}\n`;
+}
+
+function formatJsonValue(value: unknown): string {
+	return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * One line per differing key path, e.g. `~ agent.dock: "right" → "left"`
+ */
+function renderJsonChanges(out: string[], changes: JsonDiffEntry[]): void {
+	for (const change of changes) {
+		const path = change.path.join(".") || "(root)";
+		if (change.kind === "added") {
+			out.push(
+				`\x1b[32m+ ${path}: ${formatJsonValue(change.installedValue)}\x1b[0m`,
+			);
+		} else if (change.kind === "removed") {
+			out.push(
+				`\x1b[31m- ${path}: ${formatJsonValue(change.repoValue)}\x1b[0m`,
+			);
+		} else {
+			out.push(
+				`\x1b[33m~ ${path}: ${formatJsonValue(change.repoValue)} → ${formatJsonValue(change.installedValue)}\x1b[0m`,
+			);
+		}
+	}
+}
 
-	for (const diff of diffsWithChanges) {
-		displayFileDiff(diff);
+/**
+ * List the lines outside the dotfiles block of block managed files, which
+ * are not compared
+ */
+export function renderForeignLines(out: string[], diffs: FileDiff[]): void {
+	for (const diff of diffs) {
+		if (!diff.foreignLines?.length) {
+			continue;
+		}
+		out.push(
+			`\x1b[2m${diff.installedPath}: ${diff.foreignLines.length} line(s) outside the dotfiles block (not managed):\x1b[0m`,
+		);
+		for (const line of diff.foreignLines.slice(0, 5)) {
+			out.push(`\x1b[2m  ${line}\x1b[0m`);
+		}
+		if (diff.foreignLines.length > 5) {
+			out.push(
+				`\x1b[2m  ... (${diff.foreignLines.length - 5} more lines)\x1b[0m`,
+			);
+		}
+		out.push("");
 	}
 }
 
-function displayFileDiff(diff: FileDiff): void {
+export function describeState(diff: FileDiff): string {
+	return diff.state && diff.state !== "unchanged"
+		? ` \x1b[33m(${describeSyncState(diff.state)})\x1b[0m`
+		: "";
+}
+
+function renderFileDiff(out: string[], diff: FileDiff, context: number) {
 	if (diff.onlyInRepo) {
-		console.log(`\x1b[32m+ ${diff.installedPath}\x1b[0m (only in repo)`);
-		console.log();
+		out.push(
+			`\x1b[32m+ ${diff.installedPath}\x1b[0m (only in repo)${describeState(diff)}`,
+		);
+		out.push("");
 		return;
 	}
 
 	if (diff.onlyInSystem) {
-		console.log(`\x1b[31m- ${diff.installedPath}\x1b[0m (only in system)`);
-		console.log();
+		out.push(
+			`\x1b[31m- ${diff.installedPath}\x1b[0m (only in system)${describeState(diff)}`,
+		);
+		out.push("");
 		return;
 	}
 
@@ -45,32 +127,57 @@ function displayFileDiff(diff: FileDiff): void {
 	}
 
 	// Display file path
-	console.log(`\x1b[1m\x1b[4m${diff.installedPath}\x1b[0m`);
+	out.push(`\x1b[1m\x1b[4m${diff.installedPath}\x1b[0m${describeState(diff)}`);
 
-	// Display changes
-	for (const change of diff.changes) {
+	if (diff.jsonChanges) {
+		renderJsonChanges(out, diff.jsonChanges);
+		out.push("");
+		return;
+	}
+
+	// Line numbers in the repo and installed copies
+	let repoLine = 1;
+	let installedLine = 1 + (diff.lineOffset ?? 0);
+	const width = String(
+		diff.changes.reduce(
+			(sum, change) => sum + splitChangeLines(change.value).length,
+			diff.lineOffset ?? 0,
+		),
+	).length;
+	const gutter = (repo?: number, installed?: number) =>
+		`\x1b[2m${String(repo ?? "").padStart(width)} ${String(installed ?? "").padStart(width)}\x1b[0m`;
+	const unchanged = (line: string) => {
+		out.push(`${gutter(repoLine++, installedLine++)}   \x1b[2m${line}\x1b[0m`);
+	};
+
+	diff.changes.forEach((change, index) => {
+		const lines = splitChangeLines(change.value);
 		if (change.added) {
-			const lines = change.value.split("\n").filter((l) => l);
 			for (const line of lines) {
-				console.log(`\x1b[32m+ ${line}\x1b[0m`);
+				out.push(
+					`${gutter(undefined, installedLine++)} \x1b[32m+ ${line}\x1b[0m`,
+				);
 			}
 		} else if (change.removed) {
-			const lines = change.value.split("\n").filter((l) => l);
 			for (const line of lines) {
-				console.log(`\x1b[31m- ${line}\x1b[0m`);
+				out.push(`${gutter(repoLine++)} \x1b[31m- ${line}\x1b[0m`);
 			}
 		} else {
-			// Only show a few lines of context
-			const lines = change.value.split("\n").filter((l) => l.trim());
-			if (lines.length > 3) {
-				console.log(`\x1b[2m  ... (${lines.length} unchanged lines)\x1b[0m`);
-			} else {
-				for (const line of lines) {
-					console.log(`\x1b[2m  ${line}\x1b[0m`);
-				}
+			// Only the lines around the changes are shown
+			const head = index === 0 ? 0 : context;
+			const tail = index === diff.changes.length - 1 ? 0 : context;
+			if (lines.length <= head + tail) {
+				lines.forEach(unchanged);
+				return;
 			}
+			lines.slice(0, head).forEach(unchanged);
+			const skipped = lines.length - head - tail;
+			out.push(`\x1b[2m  ... (${skipped} unchanged lines)\x1b[0m`);
+			repoLine += skipped;
+			installedLine += skipped;
+			lines.slice(lines.length - tail).forEach(unchanged);
 		}
-	}
+	});
 
-	console.log();
+	out.push("");
 }
@@ -1 +1,3 @@
-export { displayDiff } from "./diff-display.ts";
+export { renderDiff } from "./diff-display.ts";
+export { renderSideBySideDiff } from "./side-by-side-diff.ts";
+export { renderUnifiedDiff } from "./unified-diff.ts";
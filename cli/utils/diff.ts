@@ -1,6 +1,20 @@
-import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { existsSync, readdirSync } from "node:fs";
 import { join } from "node:path";
-import { type Change, diffLines } from "diff";
+import { type Change, diffArrays, diffLines } from "diff";
+import { fileExists, readTextFile } from "./fs-helper.ts";
+import type { FileSyncState } from "./install-state.ts";
+import { diffJsonValues, getDefinedDepth, parseJsonc } from "./json-helper.ts";
+
+/** A value that differs between the repo and installed copies of a JSON file */
+export interface JsonDiffEntry {
+	/** Key path, e.g. ["agent", "dock"] */
+	path: string[];
+	kind: "added" | "removed" | "changed";
+	/** Value in the repo copy, absent when added on the system */
+	repoValue?: unknown;
+	/** Value in the installed copy, absent when removed on the system */
+	installedValue?: unknown;
+}
 
 export interface FileDiff {
 	path: string;
@@ -9,19 +23,37 @@ export interface FileDiff {
 	changes: Change[];
 	onlyInRepo: boolean;
 	onlyInSystem: boolean;
+	/** Which side changed since the last install or sync, when known */
+	state?: FileSyncState;
+	/**
+	 * Differences by key path for JSON(C) files, ignoring formatting and
+	 * comments. Absent when either side does not parse.
+	 */
+	jsonChanges?: JsonDiffEntry[];
+	/** Repo relative path of the file the repo side comes from, for patches */
+	sourcePath?: string;
+	/** Lines outside the dotfiles block, for files managed as a block */
+	foreignLines?: string[];
+	/**
+	 * Lines of the installed file before the compared content, for files
+	 * managed as a block, so the installed side is numbered within the file
+	 */
+	lineOffset?: number;
 }
 
 /**
- * Compare two files and return the diff
+ * Compare two files and return the diff. `readInstalled` reads the installed
+ * side, e.g. to hide the secrets in it.
  */
 export function compareFiles(
 	repoPath: string,
 	installedPath: string,
+	readInstalled: (path: string) => string = readTextFile,
 ): FileDiff | null {
-	const onlyInRepo = existsSync(repoPath) && !existsSync(installedPath);
-	const onlyInSystem = !existsSync(repoPath) && existsSync(installedPath);
+	const onlyInRepo = fileExists(repoPath) && !fileExists(installedPath);
+	const onlyInSystem = !fileExists(repoPath) && fileExists(installedPath);
 
-	if (!existsSync(repoPath) && !existsSync(installedPath)) {
+	if (!fileExists(repoPath) && !fileExists(installedPath)) {
 		return null;
 	}
 
@@ -36,8 +68,8 @@ export function compareFiles(
 		};
 	}
 
-	const repoContent = readFileSync(repoPath, "utf-8");
-	const installedContent = readFileSync(installedPath, "utf-8");
+	const repoContent = readTextFile(repoPath);
+	const installedContent = readInstalled(installedPath);
 
 	const changes = diffLines(repoContent, installedContent);
 
@@ -46,11 +78,52 @@ export function compareFiles(
 		repoPath,
 		installedPath,
 		changes,
+		jsonChanges: /\.jsonc?$/.test(repoPath)
+			? compareJson(repoContent, installedContent)
+			: undefined,
 		onlyInRepo: false,
 		onlyInSystem: false,
 	};
 }
 
+/**
+ * Compare two JSON(C) documents by key path. Returns undefined when either
+ * does not parse, so the caller can fall back to the line diff.
+ */
+export function compareJson(
+	repoContent: string,
+	installedContent: string,
+): JsonDiffEntry[] | undefined {
+	let repo: unknown;
+	let installed: unknown;
+	try {
+		repo = parseJsonc(repoContent);
+		installed = parseJsonc(installedContent);
+	} catch {
+		return undefined;
+	}
+
+	return diffJsonValues(repo, installed).map(({ path, value, removed }) => {
+		if (removed) {
+			return { path, kind: "removed", repoValue: getJsonValue(repo, path) };
+		}
+		if (getDefinedDepth(repo, path) < path.length) {
+			return { path, kind: "added", installedValue: value };
+		}
+		return {
+			path,
+			kind: "changed",
+			repoValue: getJsonValue(repo, path),
+			installedValue: value,
+		};
+	});
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+function getJsonValue(value: any, path: string[]): unknown {
+	return path.reduce((current, key) => current[key], value);
+}
+
 /**
  * Compare two directories recursively
  */
@@ -155,6 +228,17 @@ function getAllFiles(dir: string): string[] {
 	return files;
 }
 
+/**
+ * The lines of a change's value, without line endings
+ */
+export function splitChangeLines(value: string): string[] {
+	const lines = value.split("\n");
+	if (lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+	return lines.map((line) => line.replace(/\r$/, ""));
+}
+
 /**
  * Check if there are any differences
  */
@@ -165,3 +249,50 @@ export function hasDifferences(diff: FileDiff): boolean {
 
 	return diff.changes.some((change) => change.added || change.removed);
 }
+
+/** A range of base lines and the lines that replace it */
+export interface LineChange {
+	/** First base line replaced */
+	start: number;
+	/** Line after the last base line replaced (equal to start for insertions) */
+	end: number;
+	lines: string[];
+}
+
+/**
+ * Split text into lines that keep their line endings, so CRLF files and a
+ * missing final newline survive merges and rewrites
+ */
+export function splitLines(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * The ranges of `base` that `other` replaces, with their replacement lines
+ */
+export function getLineChanges(base: string[], other: string[]): LineChange[] {
+	const changes: LineChange[] = [];
+	let index = 0;
+	let current: LineChange | undefined;
+
+	for (const change of diffArrays(base, other)) {
+		if (!change.added && !change.removed) {
+			current = undefined;
+			index += change.count ?? change.value.length;
+			continue;
+		}
+
+		if (!current) {
+			current = { start: index, end: index, lines: [] };
+			changes.push(current);
+		}
+		if (change.removed) {
+			index += change.value.length;
+			current.end = index;
+		} else {
+			current.lines.push(...change.value);
+		}
+	}
+
+	return changes;
+}
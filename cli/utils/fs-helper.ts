@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+import {
+	copyFileSync,
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+
+/**
+ * Files derived from others, like rendered templates, kept in memory under
+ * the path they would have on disk. null marks one that does not exist.
+ */
+const memoryFiles = new Map<string, string | null>();
+
+/**
+ * Keep the content of a derived file in memory instead of writing it, so
+ * commands that only compare leave no files behind. The helpers below read
+ * it in place of the disk; null records that the file does not exist.
+ */
+export function setMemoryFile(path: string, content: string | null): void {
+	memoryFiles.set(path, content);
+}
+
+/**
+ * Whether a file exists, in memory or on disk
+ */
+export function fileExists(path: string): boolean {
+	const content = memoryFiles.get(path);
+	return content === undefined ? existsSync(path) : content !== null;
+}
+
+/**
+ * Read a text file, from memory or from disk
+ */
+export function readTextFile(path: string): string {
+	const content = memoryFiles.get(path);
+	if (content === null) {
+		throw new Error(`${path} does not exist`);
+	}
+	return content ?? readFileSync(path, "utf-8");
+}
+
+/**
+ * Create an ID such as 2024-01-15T09-30-00 that does not exist yet in `parentDir`
+ */
+export function createTimestampId(
+	parentDir: string,
+	date = new Date(),
+): string {
+	const base = date
+		.toISOString()
+		.replace(/\.\d+Z$/, "")
+		.replace(/:/g, "-");
+	let id = base;
+	for (let suffix = 2; existsSync(join(parentDir, id)); suffix++) {
+		id = `${base}-${suffix}`;
+	}
+	return id;
+}
+
+/**
+ * Copy a directory recursively, skipping .git directories.
+ * Existing files are only overwritten when `force` is set.
+ */
+export function copyDirectory(src: string, dest: string, force = true): void {
+	if (!existsSync(dest)) {
+		mkdirSync(dest, { recursive: true });
+	}
+
+	const entries = readdirSync(src, { withFileTypes: true });
+
+	for (const entry of entries) {
+		// Skip .git directories
+		if (entry.name === ".git") {
+			continue;
+		}
+
+		const srcPath = join(src, entry.name);
+		const destPath = join(dest, entry.name);
+
+		if (entry.isDirectory()) {
+			copyDirectory(srcPath, destPath, force);
+		} else {
+			if (!force && existsSync(destPath)) {
+				continue;
+			}
+			copyFileSync(srcPath, destPath);
+		}
+	}
+}
+
+/**
+ * Copy a single file, creating the parent directory if needed
+ */
+export function copyFile(src: string, dest: string): void {
+	ensureParentDir(dest);
+	if (memoryFiles.has(src)) {
+		writeFileSync(dest, readTextFile(src));
+	} else {
+		copyFileSync(src, dest);
+	}
+}
+
+export function ensureParentDir(path: string): void {
+	const parentDir = dirname(path);
+	if (!existsSync(parentDir)) {
+		mkdirSync(parentDir, { recursive: true });
+	}
+}
+
+/**
+ * SHA-256 hash of a file's contents, as hex
+ */
+export function hashFile(path: string): string {
+	return hashContent(
+		memoryFiles.has(path) ? readTextFile(path) : readFileSync(path),
+	);
+}
+
+export function hashContent(content: string | Buffer): string {
+	return createHash("sha256").update(content).digest("hex");
+}
@@ -0,0 +1,436 @@
+import { execSync } from "node:child_process";
+import { existsSync, readdirSync, readFileSync, realpathSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import type { LintProblem } from "./lint.ts";
+import { expandHome } from "./manifest.ts";
+import { isTomlTable, parseToml, type TomlTable } from "./toml-helper.ts";
+
+/** Themes compiled into helix, which have no file */
+const BUILTIN_THEMES = ["default", "base16_default"];
+
+/** Color names helix accepts besides hex colors and palette keys */
+const ANSI_COLORS = [
+	"reset",
+	"default",
+	"black",
+	"red",
+	"green",
+	"yellow",
+	"blue",
+	"magenta",
+	"cyan",
+	"gray",
+	"light-red",
+	"light-green",
+	"light-yellow",
+	"light-blue",
+	"light-magenta",
+	"light-cyan",
+	"light-gray",
+	"white",
+];
+
+const MODIFIERS = [
+	"bold",
+	"dim",
+	"italic",
+	"underlined",
+	"slow_blink",
+	"rapid_blink",
+	"reversed",
+	"hidden",
+	"crossed_out",
+];
+
+const UNDERLINE_STYLES = ["line", "curl", "dashed", "dotted", "double_line"];
+
+/** Scopes a theme should set, or the editor falls back to its defaults */
+const IMPORTANT_SCOPES = [
+	"ui.text",
+	"ui.cursor",
+	"ui.selection",
+	"ui.statusline",
+	"ui.linenr",
+	"ui.menu",
+	"ui.popup",
+	"ui.help",
+];
+
+type Problem = Omit<LintProblem, "file">;
+
+/**
+ * A theme as helix loads it: its own file and the themes it inherits from
+ */
+interface LoadedTheme {
+	palette: Record<string, string>;
+	scopes: Set<string>;
+	/** False when the chain ends in a theme whose file cannot be read */
+	complete: boolean;
+	/** Why the inherits chain cannot be followed */
+	broken?: Problem;
+}
+
+/**
+ * Directories of the helix runtime that hold the themes shipped with helix
+ */
+function getRuntimeThemeDirs(): string[] {
+	const dirs = [
+		process.env.HELIX_RUNTIME,
+		expandHome("~/.config/helix/runtime"),
+		"/usr/lib/helix/runtime",
+		"/usr/share/helix/runtime",
+	];
+	try {
+		const hx = execSync("command -v hx", { encoding: "utf-8" }).trim();
+		dirs.push(join(dirname(realpathSync(hx)), "runtime"));
+	} catch {
+		// helix is not installed
+	}
+	return dirs
+		.filter((dir): dir is string => Boolean(dir))
+		.map((dir) => join(dir, "themes"))
+		.filter((dir) => existsSync(dir));
+}
+
+/**
+ * Find a theme the way helix does: the user themes directory first, then the
+ * runtime. A theme inheriting its own name skips the user directory.
+ * Returns "builtin" for the themes compiled into helix.
+ */
+function resolveTheme(
+	name: string,
+	userThemesDir: string,
+	runtimeDirs: string[],
+	skipUser = false,
+): string | undefined {
+	const dirs = skipUser ? runtimeDirs : [userThemesDir, ...runtimeDirs];
+	for (const dir of dirs) {
+		const path = join(dir, `${name}.toml`);
+		if (existsSync(path)) {
+			return path;
+		}
+	}
+	return BUILTIN_THEMES.includes(name) ? "builtin" : undefined;
+}
+
+/**
+ * 1-based line of the first `key =` in a TOML text, after a [section] header
+ * when given
+ */
+function findKeyLine(
+	text: string,
+	key: string,
+	section?: string,
+): number | undefined {
+	const lines = text.split("\n");
+	let index = section
+		? lines.findIndex((line) => line.trim() === `[${section}]`)
+		: 0;
+	if (index < 0) {
+		return undefined;
+	}
+	const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const pattern = new RegExp(
+		`^\\s*("${escaped}"|'${escaped}'|${escaped})\\s*=`,
+	);
+	for (; index < lines.length; index++) {
+		if (pattern.test(lines[index])) {
+			return index + 1;
+		}
+	}
+	return undefined;
+}
+
+function isColorValue(value: string): boolean {
+	return /^#[0-9a-fA-F]{6}$/.test(value) || ANSI_COLORS.includes(value);
+}
+
+function readThemeFile(path: string): { text: string; theme: TomlTable } {
+	const text = readFileSync(path, "utf-8");
+	return { text, theme: parseToml(text) };
+}
+
+/**
+ * Load a theme with the palette and scopes it inherits
+ */
+function loadTheme(
+	path: string,
+	userThemesDir: string,
+	runtimeDirs: string[],
+	chain: string[] = [],
+): LoadedTheme {
+	const name = basename(path, ".toml");
+	const { theme } = readThemeFile(path);
+	const palette: Record<string, string> = {};
+	const scopes = new Set(
+		Object.keys(theme).filter((key) => key !== "inherits" && key !== "palette"),
+	);
+	let complete = true;
+	let broken: Problem | undefined;
+
+	if (typeof theme.inherits === "string") {
+		const parentName = theme.inherits;
+		const parent = resolveTheme(
+			parentName,
+			userThemesDir,
+			runtimeDirs,
+			parentName === name,
+		);
+		if (parentName !== name && [...chain, name].includes(parentName)) {
+			broken = {
+				message: `inherits cycle: ${[...chain, name, parentName].join(" → ")}`,
+				severity: "error",
+			};
+		} else if (!parent) {
+			broken = {
+				message: `${name} inherits '${parentName}', which is not in themes/ or the helix runtime`,
+				severity: runtimeDirs.length > 0 ? "error" : "warning",
+			};
+		} else if (parent !== "builtin") {
+			let inherited: LoadedTheme;
+			try {
+				inherited = loadTheme(parent, userThemesDir, runtimeDirs, [
+					...chain,
+					name,
+				]);
+			} catch (error) {
+				inherited = {
+					palette: {},
+					scopes: new Set(),
+					complete: false,
+					broken: {
+						message: `inherits '${parentName}', which does not parse: ${error instanceof Error ? error.message : String(error)}`,
+						severity: "error",
+					},
+				};
+			}
+			Object.assign(palette, inherited.palette);
+			for (const scope of inherited.scopes) {
+				scopes.add(scope);
+			}
+			complete = inherited.complete;
+			broken = inherited.broken;
+		}
+		if (parent === "builtin" || broken) {
+			complete = false;
+		}
+	}
+
+	if (isTomlTable(theme.palette)) {
+		for (const [key, value] of Object.entries(theme.palette)) {
+			if (typeof value === "string") {
+				palette[key] = value;
+			}
+		}
+	}
+
+	return { palette, scopes, complete, broken };
+}
+
+function checkColor(
+	value: unknown,
+	where: string,
+	palette: Record<string, string>,
+): string | undefined {
+	if (typeof value !== "string") {
+		return `${where} must be a color string`;
+	}
+	if (isColorValue(value) || value in palette) {
+		return undefined;
+	}
+	return `${where}: unknown color '${value}' (not a #rrggbb color, color name or palette key)`;
+}
+
+/**
+ * Check the value of one scope: a color, or a table of fg, bg, underline and
+ * modifiers
+ */
+function checkStyle(
+	scope: string,
+	value: unknown,
+	palette: Record<string, string>,
+): string[] {
+	if (typeof value === "string") {
+		return [checkColor(value, scope, palette)].filter(
+			(error): error is string => error !== undefined,
+		);
+	}
+	if (!isTomlTable(value)) {
+		return [
+			`${scope} must be a color or a table of fg, bg, underline and modifiers`,
+		];
+	}
+
+	const errors: (string | undefined)[] = [];
+	for (const [key, entry] of Object.entries(value)) {
+		if (key === "fg" || key === "bg") {
+			errors.push(checkColor(entry, `${scope}.${key}`, palette));
+		} else if (key === "underline") {
+			if (!isTomlTable(entry)) {
+				errors.push(`${scope}.underline must be a table of color and style`);
+				continue;
+			}
+			if (entry.color !== undefined) {
+				errors.push(
+					checkColor(entry.color, `${scope}.underline.color`, palette),
+				);
+			}
+			if (
+				entry.style !== undefined &&
+				!UNDERLINE_STYLES.includes(entry.style as string)
+			) {
+				errors.push(
+					`${scope}.underline.style: unknown style '${entry.style}' (use ${UNDERLINE_STYLES.join(", ")})`,
+				);
+			}
+		} else if (key === "modifiers") {
+			const unknown = Array.isArray(entry)
+				? entry.filter((modifier) => !MODIFIERS.includes(modifier as string))
+				: [entry];
+			if (unknown.length > 0) {
+				errors.push(
+					`${scope}.modifiers: unknown modifier ${unknown.map((modifier) => `'${modifier}'`).join(", ")}`,
+				);
+			}
+		} else {
+			errors.push(`${scope}: unknown style key '${key}'`);
+		}
+	}
+	return errors.filter((error): error is string => error !== undefined);
+}
+
+/**
+ * Validate one theme file: its colors and palette, the themes it inherits
+ * from, and the important UI scopes it leaves unset
+ */
+function validateTheme(
+	path: string,
+	userThemesDir: string,
+	runtimeDirs: string[],
+): Problem[] {
+	const problems: Problem[] = [];
+	let text: string;
+	let theme: TomlTable;
+	try {
+		({ text, theme } = readThemeFile(path));
+	} catch {
+		// Syntax errors are reported by the TOML lint
+		return [];
+	}
+
+	const { palette, scopes, complete, broken } = loadTheme(
+		path,
+		userThemesDir,
+		runtimeDirs,
+	);
+	if (broken) {
+		problems.push({ line: findKeyLine(text, "inherits"), ...broken });
+	}
+
+	if (theme.palette !== undefined && !isTomlTable(theme.palette)) {
+		problems.push({
+			line: findKeyLine(text, "palette"),
+			message: "palette must be a table of colors",
+			severity: "error",
+		});
+	} else if (isTomlTable(theme.palette)) {
+		for (const [key, value] of Object.entries(theme.palette)) {
+			if (typeof value !== "string" || !isColorValue(value)) {
+				problems.push({
+					line: findKeyLine(text, key, "palette"),
+					message: `palette.${key}: invalid color ${JSON.stringify(value)} (use #rrggbb or a color name)`,
+					severity: "error",
+				});
+			}
+		}
+	}
+
+	for (const [scope, value] of Object.entries(theme)) {
+		if (scope === "inherits" || scope === "palette") {
+			continue;
+		}
+		const values =
+			scope === "rainbow" && Array.isArray(value) ? value : [value];
+		for (const error of values.flatMap((entry) =>
+			checkStyle(scope, entry, palette),
+		)) {
+			problems.push({
+				line: findKeyLine(text, scope),
+				message: error,
+				severity: "error",
+			});
+		}
+	}
+
+	const missing = IMPORTANT_SCOPES.filter((scope) => !scopes.has(scope));
+	if (complete && missing.length > 0) {
+		problems.push({
+			message: `missing UI scope(s) ${missing.join(", ")}, helix falls back to its defaults`,
+			severity: "warning",
+		});
+	}
+
+	return problems;
+}
+
+/**
+ * Validate a helix config directory (with config.toml and themes/): the theme
+ * selected in config.toml must resolve, and every theme in themes/ must use
+ * valid colors, palette keys and inherits chains. `describe` names the files
+ * in the problems.
+ */
+export function validateHelixConfig(
+	configDir: string,
+	describe: (path: string) => string,
+): LintProblem[] {
+	const problems: LintProblem[] = [];
+	const userThemesDir = join(configDir, "themes");
+	const runtimeDirs = getRuntimeThemeDirs();
+	const configPath = join(configDir, "config.toml");
+
+	if (existsSync(configPath)) {
+		let text: string | undefined;
+		let config: TomlTable | undefined;
+		try {
+			text = readFileSync(configPath, "utf-8");
+			config = parseToml(text);
+		} catch {
+			// Syntax errors are reported by the TOML lint
+		}
+
+		// Either a name, or { light, dark } names following the terminal
+		const theme = config?.theme;
+		const names =
+			typeof theme === "string"
+				? [theme]
+				: isTomlTable(theme)
+					? Object.values(theme).filter(
+							(name): name is string => typeof name === "string",
+						)
+					: [];
+		for (const name of names) {
+			if (!resolveTheme(name, userThemesDir, runtimeDirs)) {
+				problems.push({
+					file: describe(configPath),
+					line: text ? findKeyLine(text, "theme") : undefined,
+					message: `theme '${name}' is not in themes/ or the helix runtime`,
+					severity: runtimeDirs.length > 0 ? "error" : "warning",
+				});
+			}
+		}
+	}
+
+	if (existsSync(userThemesDir)) {
+		for (const entry of readdirSync(userThemesDir).sort()) {
+			if (!entry.endsWith(".toml")) {
+				continue;
+			}
+			const path = join(userThemesDir, entry);
+			for (const problem of validateTheme(path, userThemesDir, runtimeDirs)) {
+				problems.push({ file: describe(path), ...problem });
+			}
+		}
+	}
+
+	return problems;
+}
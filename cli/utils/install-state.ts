@@ -0,0 +1,404 @@
+import { execSync } from "node:child_process";
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { join, relative } from "node:path";
+import {
+	ensureParentDir,
+	fileExists,
+	hashContent,
+	hashFile,
+	readTextFile,
+} from "./fs-helper.ts";
+import { getInstalledPath } from "./managed-block.ts";
+import {
+	getLayeredFilePath,
+	getOverlayPaths,
+	getSourcePath,
+	getStateDir,
+	getSystemPath,
+	getTemplatePath,
+	type ModuleDefinition,
+	repoRoot,
+} from "./manifest.ts";
+import { getRenderedSourcePath } from "./template.ts";
+
+/**
+ * What was written to one system file by the last install or sync
+ */
+export interface FileRecord {
+	module: string;
+	/** Repo side of the file, relative to the repo root */
+	repoPath: string;
+	/** Hash of the repo side when it was written (null if it did not exist) */
+	repoHash: string | null;
+	/** Hash of the content left on the system */
+	systemHash: string;
+	/** Repo commit checked out at the time, when available */
+	commit?: string;
+	timestamp: string;
+	operation: "install" | "sync";
+}
+
+export interface InstallState {
+	version: 1;
+	/** Records keyed by absolute system path */
+	files: Record<string, FileRecord>;
+}
+
+/**
+ * How a file has drifted since the last install or sync
+ * - unchanged: repo and system match (or nothing changed since the record)
+ * - repo-ahead: only the repo side changed
+ * - system-ahead: only the system side changed
+ * - conflicted: both changed, or they differ and there is no record to tell
+ */
+export type FileSyncState =
+	| "unchanged"
+	| "repo-ahead"
+	| "system-ahead"
+	| "conflicted";
+
+export function getInstallStatePath(): string {
+	return join(getStateDir(), "install-state.json");
+}
+
+/**
+ * Copies of the repo files as they were at the last install or sync, keyed by
+ * hash. They are the common base for three-way merges.
+ */
+function getBasesDir(): string {
+	return join(getStateDir(), "bases");
+}
+
+function storeBase(content: Buffer | string): string {
+	const hash = hashContent(content);
+	const path = join(getBasesDir(), hash);
+	if (!existsSync(path)) {
+		mkdirSync(getBasesDir(), { recursive: true });
+		writeFileSync(path, content);
+	}
+	return hash;
+}
+
+/**
+ * Remove stored bases no record points to anymore
+ */
+function pruneBases(state: InstallState): void {
+	if (!existsSync(getBasesDir())) {
+		return;
+	}
+	const used = new Set(
+		Object.values(state.files).map((record) => record.repoHash),
+	);
+	for (const hash of readdirSync(getBasesDir())) {
+		if (!used.has(hash)) {
+			rmSync(join(getBasesDir(), hash));
+		}
+	}
+}
+
+/**
+ * The repo content of a system file as of the last install or sync, if known
+ */
+export function getBaseContent(systemFile: string): string | undefined {
+	const hash = getFileRecord(systemFile)?.repoHash;
+	const path = hash ? join(getBasesDir(), hash) : undefined;
+	return path && existsSync(path) ? readFileSync(path, "utf-8") : undefined;
+}
+
+export function loadInstallState(): InstallState {
+	const path = getInstallStatePath();
+	if (!existsSync(path)) {
+		return { version: 1, files: {} };
+	}
+	return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+export function saveInstallState(state: InstallState): void {
+	const path = getInstallStatePath();
+	ensureParentDir(path);
+	writeFileSync(path, `${JSON.stringify(state, null, 2)}\n`);
+	pruneBases(state);
+}
+
+let cachedCommit: string | null | undefined;
+
+function getRepoCommit(): string | undefined {
+	if (cachedCommit === undefined) {
+		try {
+			cachedCommit = execSync("git rev-parse HEAD", {
+				cwd: repoRoot,
+				stdio: "pipe",
+			})
+				.toString()
+				.trim();
+		} catch {
+			cachedCommit = null;
+		}
+	}
+	return cachedCommit ?? undefined;
+}
+
+function hashIfExists(path: string): string | null {
+	return fileExists(path) ? hashFile(path) : null;
+}
+
+/**
+ * Pairs of (repo file, system file) for every file of a module.
+ * For directories, files present on either side are included, each repo file
+ * taken from the layer it comes from. Templated and overlaid files pair the
+ * rendered file with the system file, and block managed files pair it with
+ * the block.
+ */
+export function getModuleFilePairs(
+	module: ModuleDefinition,
+	from?: string,
+): { repoFile: string; systemFile: string }[] {
+	const systemPath = getSystemPath(module);
+
+	if (module.type === "file") {
+		return [
+			{
+				repoFile: getRenderedSourcePath(module, from),
+				systemFile: getInstalledPath(module),
+			},
+		];
+	}
+
+	const repoDirs = from
+		? [getSourcePath(module, from)]
+		: [getSourcePath(module), ...getOverlayPaths(module)];
+
+	const relativePaths = new Set<string>();
+	for (const dir of [...repoDirs, systemPath]) {
+		if (!existsSync(dir)) {
+			continue;
+		}
+		for (const entry of readdirSync(dir, {
+			recursive: true,
+			withFileTypes: true,
+		})) {
+			const fullPath = join(entry.parentPath, entry.name);
+			if (entry.isFile() && !fullPath.split("/").includes(".git")) {
+				relativePaths.add(relative(dir, fullPath));
+			}
+		}
+	}
+
+	// Each file comes from the highest layer that has it
+	return [...relativePaths].sort().map((path) => ({
+		repoFile: from ? join(repoDirs[0], path) : getLayeredFilePath(module, path),
+		systemFile: join(systemPath, path),
+	}));
+}
+
+/**
+ * Repo files a module's content is synced into: the template or source and
+ * the overlays of profile and host layers
+ */
+export function getModuleRepoFiles(module: ModuleDefinition): string[] {
+	if (module.type === "directory") {
+		return getModuleFilePairs(module).map(({ repoFile }) => repoFile);
+	}
+	return [
+		getTemplatePath(module) ?? getSourcePath(module),
+		...getOverlayPaths(module),
+	];
+}
+
+/**
+ * Repo relative path of the file a record comes from: the template or the
+ * source of a file module rather than its rendered copy
+ */
+function getRecordedRepoPath(
+	module: ModuleDefinition,
+	repoFile: string,
+): string {
+	const source =
+		module.type === "file"
+			? (getTemplatePath(module) ?? getSourcePath(module))
+			: repoFile;
+	return relative(repoRoot, source);
+}
+
+/**
+ * Record the files of a module right after install or sync wrote them.
+ * The repo side is always the configs/ copy, even when installing from a backup.
+ */
+export function recordModuleFiles(
+	module: ModuleDefinition,
+	operation: FileRecord["operation"],
+): void {
+	const state = loadInstallState();
+	const timestamp = new Date().toISOString();
+
+	for (const { repoFile, systemFile } of getModuleFilePairs(module)) {
+		if (!fileExists(systemFile)) {
+			continue;
+		}
+		const repoHash = fileExists(repoFile)
+			? storeBase(readTextFile(repoFile))
+			: null;
+		state.files[systemFile] = {
+			module: module.name,
+			repoPath: getRecordedRepoPath(module, repoFile),
+			repoHash,
+			systemHash: hashFile(systemFile),
+			commit: getRepoCommit(),
+			timestamp,
+			operation,
+		};
+	}
+
+	saveInstallState(state);
+}
+
+/**
+ * Record a repo file that sync left with conflict markers. The system side
+ * becomes the base, so once the markers are resolved its changes count as
+ * merged and the next install does not conflict again.
+ * Install conflicts are not recorded: the base stays where it was until the
+ * `<file>.conflict` is resolved (see getConflictPath).
+ */
+export function recordConflict(
+	module: ModuleDefinition,
+	systemFile: string,
+	repoFile: string,
+	base: string,
+	systemHash: string,
+	operation: FileRecord["operation"],
+): void {
+	const state = loadInstallState();
+	state.files[systemFile] = {
+		module: module.name,
+		repoPath: getRecordedRepoPath(module, repoFile),
+		repoHash: storeBase(base),
+		systemHash,
+		commit: getRepoCommit(),
+		timestamp: new Date().toISOString(),
+		operation,
+	};
+	saveInstallState(state);
+}
+
+/**
+ * Where install writes the merge of a file that stopped on conflicts, next to
+ * the installed file it leaves alone
+ */
+export function getConflictPath(systemFile: string): string {
+	return `${systemFile}.conflict`;
+}
+
+export function getFileRecord(systemFile: string): FileRecord | undefined {
+	return loadInstallState().files[systemFile];
+}
+
+/**
+ * The records of a module's files, keyed by system path
+ */
+export function getModuleRecords(
+	module: ModuleDefinition,
+): Record<string, FileRecord> {
+	return Object.fromEntries(
+		Object.entries(loadInstallState().files).filter(
+			([, record]) => record.module === module.name,
+		),
+	);
+}
+
+/**
+ * Replace the records of a module (e.g. with the ones saved before a rollback)
+ */
+export function replaceModuleRecords(
+	module: string,
+	records: Record<string, FileRecord>,
+): void {
+	const state = loadInstallState();
+	for (const [path, record] of Object.entries(state.files)) {
+		if (record.module === module) {
+			delete state.files[path];
+		}
+	}
+	Object.assign(state.files, records);
+	saveInstallState(state);
+}
+
+/**
+ * Classify a file by comparing both sides against what was last written
+ */
+export function classifyFile(
+	repoFile: string,
+	systemFile: string,
+	record: FileRecord | undefined = getFileRecord(systemFile),
+): FileSyncState {
+	const repoHash = hashIfExists(repoFile);
+	const systemHash = hashIfExists(systemFile);
+
+	if (repoHash === systemHash) {
+		return "unchanged";
+	}
+	if (!record) {
+		return "conflicted";
+	}
+
+	const repoChanged = repoHash !== record.repoHash;
+	const systemChanged = systemHash !== record.systemHash;
+
+	if (repoChanged && systemChanged) {
+		return "conflicted";
+	}
+	if (repoChanged) {
+		return "repo-ahead";
+	}
+	if (systemChanged) {
+		return "system-ahead";
+	}
+	// Neither side changed since they were written, e.g. a merged JSON config
+	return "unchanged";
+}
+
+/**
+ * Classify a whole module: conflicted if any file is, or if files changed on
+ * both sides; otherwise the side that changed.
+ */
+export function classifyModule(module: ModuleDefinition): FileSyncState {
+	const { files } = loadInstallState();
+	const states = new Set(
+		getModuleFilePairs(module).map(({ repoFile, systemFile }) =>
+			classifyFile(repoFile, systemFile, files[systemFile]),
+		),
+	);
+
+	if (
+		states.has("conflicted") ||
+		(states.has("repo-ahead") && states.has("system-ahead"))
+	) {
+		return "conflicted";
+	}
+	if (states.has("repo-ahead")) {
+		return "repo-ahead";
+	}
+	if (states.has("system-ahead")) {
+		return "system-ahead";
+	}
+	return "unchanged";
+}
+
+export function describeSyncState(state: FileSyncState): string {
+	switch (state) {
+		case "unchanged":
+			return "unchanged";
+		case "repo-ahead":
+			return "changed in repo";
+		case "system-ahead":
+			return "changed on system";
+		case "conflicted":
+			return "changed in repo and on system";
+	}
+}
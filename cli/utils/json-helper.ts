@@ -1,116 +1,277 @@
+export type JsoncNode = JsoncObject | JsoncArray | JsoncLiteral;
+
+interface JsoncNodeBase {
+	/** Offset of the first character of the node */
+	start: number;
+	/** Offset just past the last character of the node */
+	end: number;
+}
+
+export interface JsoncProperty extends JsoncNodeBase {
+	key: string;
+	value: JsoncNode;
+}
+
+export interface JsoncObject extends JsoncNodeBase {
+	type: "object";
+	properties: JsoncProperty[];
+}
+
+export interface JsoncArray extends JsoncNodeBase {
+	type: "array";
+	items: JsoncNode[];
+}
+
+export interface JsoncLiteral extends JsoncNodeBase {
+	type: "string" | "number" | "boolean" | "null";
+	value: string | number | boolean | null;
+}
+
 /**
- * Strips comments (block and single line) and trailing commas from a JSONC string
- * and parses it into a JS object.
+ * Syntax tree of a JSONC document. Offsets point into `text`, so edits can be
+ * applied to the original text without touching comments or formatting.
  */
-// biome-ignore lint/suspicious/noExplicitAny: JSON parsing returns any
-export function parseJsonc(content: string): any {
-	// Strip block comments /* ... */ (only when not inside strings)
-	let cleaned = "";
-	let inString = false;
-	let escaped = false;
-
-	for (let i = 0; i < content.length; i++) {
-		const char = content[i];
-		const next = content[i + 1];
-
-		if (escaped) {
-			escaped = false;
-			cleaned += char;
-			continue;
+export interface JsoncDocument {
+	text: string;
+	root: JsoncNode;
+}
+
+/**
+ * Convert an offset into a 1-based line and column
+ */
+export function getLineAndColumn(
+	text: string,
+	offset: number,
+): { line: number; column: number } {
+	const before = text.slice(0, offset).split("\n");
+	return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Parse a JSONC string (JSON with comments and trailing commas) into a syntax tree
+ */
+export function parseJsoncDocument(text: string): JsoncDocument {
+	// Skip a byte order mark
+	let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+	function parseRoot(): JsoncNode {
+		const root = parseValue();
+		skipTrivia();
+		if (pos < text.length) {
+			fail(`Unexpected '${text[pos]}' after end of value`);
 		}
-		if (char === "\\") {
-			escaped = true;
-			cleaned += char;
-			continue;
+		return root;
+	}
+
+	function fail(message: string, offset = pos): never {
+		const { line, column } = getLineAndColumn(text, offset);
+		throw new Error(`${message} at line ${line}, column ${column}`);
+	}
+
+	/** Skip whitespace and comments */
+	function skipTrivia(): void {
+		while (pos < text.length) {
+			const char = text[pos];
+			if (char === " " || char === "\t" || char === "\n" || char === "\r") {
+				pos++;
+			} else if (char === "/" && text[pos + 1] === "/") {
+				const end = text.indexOf("\n", pos);
+				pos = end === -1 ? text.length : end;
+			} else if (char === "/" && text[pos + 1] === "*") {
+				const end = text.indexOf("*/", pos + 2);
+				if (end === -1) {
+					fail("Unterminated block comment");
+				}
+				pos = end + 2;
+			} else {
+				break;
+			}
+		}
+	}
+
+	function parseValue(): JsoncNode {
+		skipTrivia();
+		const char = text[pos];
+
+		if (char === "{") {
+			return parseObject();
+		}
+		if (char === "[") {
+			return parseArray();
 		}
 		if (char === '"') {
-			inString = !inString;
-			cleaned += char;
-			continue;
+			return parseString();
+		}
+		if (char === "-" || (char >= "0" && char <= "9")) {
+			return parseNumber();
 		}
-		if (!inString && char === "/" && next === "*") {
-			i += 2;
-			while (
-				i < content.length - 1 &&
-				!(content[i] === "*" && content[i + 1] === "/")
-			) {
-				i++;
+
+		for (const [word, value] of [
+			["true", true],
+			["false", false],
+			["null", null],
+		] as const) {
+			if (text.startsWith(word, pos)) {
+				const start = pos;
+				pos += word.length;
+				return {
+					type: value === null ? "null" : "boolean",
+					value,
+					start,
+					end: pos,
+				};
 			}
-			i++; // skip the '/' in closing '*/'
-			continue;
 		}
 
-		cleaned += char;
+		if (char === undefined) {
+			fail("Unexpected end of input");
+		}
+		fail(`Unexpected '${char}'`);
 	}
-	// Strip single line comments // ... (but avoid stripping URLs like https://...)
-	const lines = cleaned.split("\n");
-	const processedLines = lines.map((line) => {
-		let inString = false;
-		let escaped = false;
-		for (let i = 0; i < line.length; i++) {
-			const char = line[i];
-			if (escaped) {
-				escaped = false;
-				continue;
-			}
+
+	function parseString(): JsoncLiteral {
+		const start = pos;
+		pos++;
+
+		while (pos < text.length) {
+			const char = text[pos];
 			if (char === "\\") {
-				escaped = true;
-				continue;
-			}
-			if (char === '"') {
-				inString = !inString;
-				continue;
-			}
-			if (!inString && char === "/" && line[i + 1] === "/") {
-				return line.slice(0, i);
+				pos += 2;
+			} else if (char === '"') {
+				pos++;
+				try {
+					return {
+						type: "string",
+						value: JSON.parse(text.slice(start, pos)),
+						start,
+						end: pos,
+					};
+				} catch {
+					fail("Invalid string", start);
+				}
+			} else if (char === "\n") {
+				break;
+			} else {
+				pos++;
 			}
 		}
-		return line;
-	});
-	cleaned = processedLines.join("\n");
 
-	// Strip trailing commas before closing braces/brackets (only when not inside strings)
-	{
-		let out = "";
-		let inString = false;
-		let escaped = false;
+		fail("Unterminated string", start);
+	}
 
-		for (let i = 0; i < cleaned.length; i++) {
-			const char = cleaned[i];
+	function parseNumber(): JsoncLiteral {
+		const start = pos;
+		const match = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+		match.lastIndex = start;
+		const result = match.exec(text);
+		if (!result) {
+			fail("Invalid number");
+		}
+		pos = start + result[0].length;
+		return { type: "number", value: Number(result[0]), start, end: pos };
+	}
 
-			if (escaped) {
-				escaped = false;
-				out += char;
-				continue;
+	function parseObject(): JsoncObject {
+		const start = pos;
+		const properties: JsoncProperty[] = [];
+		pos++;
+
+		for (;;) {
+			skipTrivia();
+			if (text[pos] === "}") {
+				break;
 			}
-			if (char === "\\") {
-				escaped = true;
-				out += char;
-				continue;
+			if (text[pos] !== '"') {
+				fail("Expected a property name or '}'");
 			}
-			if (char === '"') {
-				inString = !inString;
-				out += char;
-				continue;
+
+			const key = parseString();
+			skipTrivia();
+			if (text[pos] !== ":") {
+				fail("Expected ':' after property name");
 			}
+			pos++;
 
-			if (!inString && char === ",") {
-				let j = i + 1;
-				while (j < cleaned.length && /\s/.test(cleaned[j])) {
-					j++;
-				}
-				if (cleaned[j] === "}" || cleaned[j] === "]") {
-					continue;
-				}
+			const value = parseValue();
+			properties.push({
+				key: key.value as string,
+				value,
+				start: key.start,
+				end: value.end,
+			});
+
+			skipTrivia();
+			if (text[pos] === ",") {
+				pos++;
+			} else if (text[pos] !== "}") {
+				fail("Expected ',' or '}'");
+			}
+		}
+
+		pos++;
+		return { type: "object", properties, start, end: pos };
+	}
+
+	function parseArray(): JsoncArray {
+		const start = pos;
+		const items: JsoncNode[] = [];
+		pos++;
+
+		for (;;) {
+			skipTrivia();
+			if (text[pos] === "]") {
+				break;
 			}
 
-			out += char;
+			items.push(parseValue());
+
+			skipTrivia();
+			if (text[pos] === ",") {
+				pos++;
+			} else if (text[pos] !== "]") {
+				fail("Expected ',' or ']'");
+			}
 		}
 
-		cleaned = out;
+		pos++;
+		return { type: "array", items, start, end: pos };
 	}
 
-	return JSON.parse(cleaned);
+	return { text, root: parseRoot() };
+}
+
+/**
+ * Convert a syntax tree node into a plain JS value
+ */
+// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+export function jsoncNodeToValue(node: JsoncNode): any {
+	switch (node.type) {
+		case "object": {
+			// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+			const result: Record<string, any> = {};
+			for (const property of node.properties) {
+				Object.defineProperty(result, property.key, {
+					value: jsoncNodeToValue(property.value),
+					enumerable: true,
+					writable: true,
+					configurable: true,
+				});
+			}
+			return result;
+		}
+		case "array":
+			return node.items.map(jsoncNodeToValue);
+		default:
+			return node.value;
+	}
+}
+
+/**
+ * Parses a JSONC string (comments and trailing commas allowed) into a JS object.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: JSON parsing returns any
+export function parseJsonc(content: string): any {
+	return jsoncNodeToValue(parseJsoncDocument(content).root);
 }
 
 /**
@@ -186,3 +347,394 @@ export function mergeJson(
 	}
 	return dest;
 }
+
+/** A value that differs between two JSON documents */
+export interface JsonChange {
+	path: string[];
+	/** New value, absent when the property was removed */
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	value?: any;
+	removed: boolean;
+}
+
+/**
+ * List the key paths whose values differ from `before` to `after`. Objects
+ * are compared key by key, anything else (arrays included) as a whole.
+ */
+export function diffJsonValues(
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	before: any,
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	after: any,
+	path: string[] = [],
+): JsonChange[] {
+	if (!isPlainObject(before) || !isPlainObject(after)) {
+		return JSON.stringify(before) === JSON.stringify(after)
+			? []
+			: [{ path, value: after, removed: false }];
+	}
+
+	const changes: JsonChange[] = [];
+	for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+		if (!Object.hasOwn(after, key)) {
+			changes.push({ path: [...path, key], removed: true });
+		} else if (!Object.hasOwn(before, key)) {
+			changes.push({ path: [...path, key], value: after[key], removed: false });
+		} else {
+			changes.push(...diffJsonValues(before[key], after[key], [...path, key]));
+		}
+	}
+	return changes;
+}
+
+/**
+ * Number of leading keys of `path` that exist in `value`
+ */
+export function getDefinedDepth(
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	value: any,
+	path: string[],
+): number {
+	let current = value;
+	for (let depth = 0; depth < path.length; depth++) {
+		if (!isPlainObject(current) || !Object.hasOwn(current, path[depth])) {
+			return depth;
+		}
+		current = current[path[depth]];
+	}
+	return path.length;
+}
+
+export interface TextEdit {
+	offset: number;
+	/** Number of characters replaced, 0 for insertions */
+	length?: number;
+	text: string;
+}
+
+/**
+ * Apply text edits. Edits at the same offset end up in the order they were made.
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+	let result = text;
+	const ordered = edits
+		.map((edit, index) => ({ ...edit, index }))
+		.sort((a, b) => b.offset - a.offset || b.index - a.index);
+	// Apply from the end so earlier offsets stay valid
+	for (const edit of ordered) {
+		result =
+			result.slice(0, edit.offset) +
+			edit.text +
+			result.slice(edit.offset + (edit.length ?? 0));
+	}
+	return result;
+}
+
+/**
+ * Indentation of the line containing `offset`
+ */
+function getLineIndent(text: string, offset: number): string {
+	const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+	return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+}
+
+/**
+ * Detect the indentation unit of a document from its first indented line
+ */
+function detectIndentUnit(text: string): string {
+	const match = /\n([ \t]+)\S/.exec(text);
+	return match ? match[1] : "  ";
+}
+
+/**
+ * Offset of the end of the line at `offset`, as long as the rest of the line
+ * only holds whitespace and comments; otherwise `offset` itself
+ */
+function findEndOfLine(text: string, offset: number): number {
+	const lineEnd = text.indexOf("\n", offset);
+	const end = lineEnd === -1 ? text.length : lineEnd;
+	const rest = text
+		.slice(offset, end)
+		.replace(/\/\*.*?\*\//g, "")
+		.trim();
+	if (rest === "" || rest.startsWith("//")) {
+		return end > 0 && text[end - 1] === "\r" ? end - 1 : end;
+	}
+	return offset;
+}
+
+/**
+ * Offset of the first character after `offset` that is not whitespace or a comment
+ */
+function skipTrivia(text: string, offset: number): number {
+	let pos = offset;
+	for (;;) {
+		const trivia = /^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(text.slice(pos));
+		if (!trivia) {
+			return pos;
+		}
+		pos += trivia[0].length;
+	}
+}
+
+/** Formatting conventions of the document being edited */
+interface EditStyle {
+	text: string;
+	unit: string;
+	newline: string;
+}
+
+function formatProperty(
+	key: string,
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	value: any,
+	indent: string,
+	style: EditStyle,
+): string {
+	const json = JSON.stringify(value, null, style.unit).replace(
+		/\n/g,
+		`${style.newline}${indent}`,
+	);
+	return `${JSON.stringify(key)}: ${json}`;
+}
+
+/**
+ * Format a property on a single line, e.g. "key": {"a": [1, 2]}
+ */
+function formatInlineProperty(
+	key: string,
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	value: any,
+): string {
+	const json = JSON.stringify(value, null, 1)
+		.replace(/([[{])\n\s*/g, "$1")
+		.replace(/\n\s*([\]}])/g, "$1")
+		.replace(/\n\s*/g, " ");
+	return `${JSON.stringify(key)}: ${json}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect the edits that add missing properties of `source` to the `dest`
+ * object, and with `overwrite` also replace the values that differ
+ */
+function collectObjectEdits(
+	// biome-ignore lint/suspicious/noExplicitAny: JSON values can be any shape
+	source: any,
+	dest: JsoncObject,
+	style: EditStyle,
+	edits: TextEdit[],
+	overwrite = false,
+): void {
+	const { text, unit, newline } = style;
+	const missing: string[] = [];
+
+	for (const key of Object.keys(source)) {
+		if (key === "__proto__" || key === "constructor" || key === "prototype") {
+			continue;
+		}
+
+		// Later duplicates win, like JSON.parse
+		const existing = [...dest.properties]
+			.reverse()
+			.find((property) => property.key === key);
+		if (!existing) {
+			missing.push(key);
+		} else if (existing.value.type === "object" && isPlainObject(source[key])) {
+			collectObjectEdits(source[key], existing.value, style, edits, overwrite);
+		} else if (
+			overwrite &&
+			JSON.stringify(jsoncNodeToValue(existing.value)) !==
+				JSON.stringify(source[key])
+		) {
+			const value = existing.value;
+			const indent = getLineIndent(text, existing.start);
+			const inline = !text.slice(dest.start, dest.end).includes("\n");
+			edits.push({
+				offset: value.start,
+				length: value.end - value.start,
+				text: inline
+					? formatInlineProperty("", source[key]).slice(4)
+					: formatProperty("", source[key], indent, style).slice(4),
+			});
+		}
+	}
+
+	if (missing.length === 0) {
+		return;
+	}
+
+	const last = dest.properties[dest.properties.length - 1];
+
+	// Objects written on a single line stay on a single line
+	if (!text.slice(dest.start, dest.end).includes("\n")) {
+		const added = missing
+			.map((key) => formatInlineProperty(key, source[key]))
+			.join(", ");
+		edits.push(
+			last
+				? { offset: last.end, text: `, ${added}` }
+				: { offset: dest.start + 1, text: added },
+		);
+		return;
+	}
+
+	if (!last) {
+		const indent = getLineIndent(text, dest.end - 1) + unit;
+		const added = missing
+			.map(
+				(key) =>
+					`${newline}${indent}${formatProperty(key, source[key], indent, style)}`,
+			)
+			.join(",");
+		edits.push({ offset: dest.start + 1, text: added });
+		return;
+	}
+
+	const indent = getLineIndent(text, last.start);
+	const added = missing.map(
+		(key) =>
+			`${newline}${indent}${formatProperty(key, source[key], indent, style)}`,
+	);
+
+	// Find the comma after the last property, skipping comments
+	const afterLast = skipTrivia(text, last.end);
+	const hasTrailingComma = text[afterLast] === ",";
+
+	if (hasTrailingComma) {
+		edits.push({
+			offset: findEndOfLine(text, afterLast + 1),
+			text: added.map((property) => `${property},`).join(""),
+		});
+	} else {
+		edits.push({ offset: last.end, text: "," });
+		edits.push({
+			offset: findEndOfLine(text, last.end),
+			text: added.join(","),
+		});
+	}
+}
+
+/**
+ * Merges the source JSON value into the dest JSONC text by inserting only the
+ * properties dest is missing. Existing comments, ordering and formatting in
+ * dest are left untouched. Assumes findJsonConflict has returned null.
+ */
+export function mergeJsonc(
+	// biome-ignore lint/suspicious/noExplicitAny: JSON structure can be any shape
+	source: any,
+	destText: string,
+): string {
+	const { root } = parseJsoncDocument(destText);
+
+	if (
+		root.type !== "object" ||
+		typeof source !== "object" ||
+		source === null ||
+		Array.isArray(source)
+	) {
+		return destText;
+	}
+
+	const edits: TextEdit[] = [];
+	collectObjectEdits(source, root, getEditStyle(destText), edits);
+
+	return applyEdits(destText, edits);
+}
+
+function getEditStyle(text: string): EditStyle {
+	return {
+		text,
+		unit: detectIndentUnit(text),
+		newline: text.includes("\r\n") ? "\r\n" : "\n",
+	};
+}
+
+/**
+ * Deep merge the overlay JSON value into the base JSONC text: objects are
+ * merged key by key, any other value of the overlay replaces the base one.
+ * Comments and formatting of the base are kept.
+ */
+export function overlayJsonc(
+	// biome-ignore lint/suspicious/noExplicitAny: JSON structure can be any shape
+	overlay: any,
+	baseText: string,
+): string {
+	const { root } = parseJsoncDocument(baseText);
+	if (root.type !== "object" || !isPlainObject(overlay)) {
+		return `${JSON.stringify(overlay, null, detectIndentUnit(baseText))}\n`;
+	}
+
+	const edits: TextEdit[] = [];
+	collectObjectEdits(overlay, root, getEditStyle(baseText), edits, true);
+	return applyEdits(baseText, edits);
+}
+
+/**
+ * Remove the property at `path` from JSONC text, along with its comma and,
+ * when it is alone on its line, the whole line
+ */
+export function removeJsoncProperty(text: string, path: string[]): string {
+	let node: JsoncNode = parseJsoncDocument(text).root;
+	let property: JsoncProperty | undefined;
+	let parent: JsoncObject | undefined;
+
+	for (const key of path) {
+		if (node.type !== "object") {
+			return text;
+		}
+		parent = node;
+		property = [...node.properties].reverse().find((p) => p.key === key);
+		if (!property) {
+			return text;
+		}
+		node = property.value;
+	}
+	if (!property || !parent) {
+		return text;
+	}
+
+	const edits: TextEdit[] = [];
+	let start = property.start;
+	let end = property.end;
+	let previousComma = -1;
+
+	const afterProperty = skipTrivia(text, property.end);
+	if (text[afterProperty] === ",") {
+		end = afterProperty + 1;
+	} else {
+		// The last property goes, so the previous one loses its comma
+		const previous = parent.properties[parent.properties.indexOf(property) - 1];
+		const afterPrevious = previous ? skipTrivia(text, previous.end) : -1;
+		if (text[afterPrevious] === ",") {
+			previousComma = afterPrevious;
+		}
+	}
+
+	const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+	const newline = text.indexOf("\n", end);
+	const lineEnd = newline === -1 ? text.length : newline + 1;
+	const rest = text
+		.slice(end, lineEnd)
+		.replace(/\/\*.*?\*\//g, "")
+		.trim();
+	if (
+		text.slice(lineStart, start).trim() === "" &&
+		(rest === "" || rest.startsWith("//"))
+	) {
+		// Take the whole line when the property is alone on it
+		start = lineStart;
+		end = lineEnd;
+		if (previousComma !== -1) {
+			edits.push({ offset: previousComma, length: 1, text: "" });
+		}
+	} else if (previousComma !== -1) {
+		start = previousComma;
+	}
+
+	edits.push({ offset: start, length: end - start, text: "" });
+	return applyEdits(text, edits);
+}
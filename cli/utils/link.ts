@@ -0,0 +1,126 @@
+import {
+	existsSync,
+	lstatSync,
+	readlinkSync,
+	renameSync,
+	rmSync,
+	symlinkSync,
+} from "node:fs";
+import { dirname, resolve } from "node:path";
+import { hasDifferences } from "./diff.ts";
+import { ensureParentDir } from "./fs-helper.ts";
+import {
+	getSourcePath,
+	getSystemPath,
+	type ModuleDefinition,
+} from "./manifest.ts";
+import { getModuleDiffs } from "./show-config-diffs.ts";
+
+/**
+ * How a module is present on the system relative to its repo copy
+ * - linked: symlink pointing at configs/
+ * - foreign-link: symlink pointing somewhere else
+ * - copied: regular file/directory identical to configs/
+ * - diverged: regular file/directory that differs from configs/
+ */
+export type ModuleState =
+	| "missing"
+	| "linked"
+	| "foreign-link"
+	| "copied"
+	| "diverged";
+
+export interface ModuleStatus {
+	state: ModuleState;
+	linkTarget?: string;
+}
+
+/**
+ * Returns true when the path itself is a symlink (without following it)
+ */
+export function isSymlink(path: string): boolean {
+	try {
+		return lstatSync(path).isSymbolicLink();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Resolve where a symlink points to, as an absolute path
+ */
+export function readLinkTarget(path: string): string {
+	return resolve(dirname(path), readlinkSync(path));
+}
+
+/**
+ * Returns true when the module's system path is a symlink into configs/
+ */
+export function isLinkedToRepo(module: ModuleDefinition): boolean {
+	const systemPath = getSystemPath(module);
+	return (
+		isSymlink(systemPath) &&
+		readLinkTarget(systemPath) === resolve(getSourcePath(module))
+	);
+}
+
+export function getModuleStatus(module: ModuleDefinition): ModuleStatus {
+	const systemPath = getSystemPath(module);
+
+	if (isSymlink(systemPath)) {
+		const linkTarget = readLinkTarget(systemPath);
+		return {
+			state:
+				linkTarget === resolve(getSourcePath(module))
+					? "linked"
+					: "foreign-link",
+			linkTarget,
+		};
+	}
+
+	if (!existsSync(systemPath)) {
+		return { state: "missing" };
+	}
+
+	const diverged = getModuleDiffs(module).some(hasDifferences);
+	return { state: diverged ? "diverged" : "copied" };
+}
+
+/**
+ * Replace the system path with a symlink to the repo copy.
+ * An existing file or directory is moved aside to `previous` and kept there,
+ * or removed when no `previous` is given because it matches the repo copy.
+ */
+export function linkPath(
+	source: string,
+	dest: string,
+	previous?: string,
+): void {
+	ensureParentDir(dest);
+
+	if (isSymlink(dest)) {
+		rmSync(dest);
+		symlinkSync(source, dest);
+		return;
+	}
+
+	if (!existsSync(dest)) {
+		symlinkSync(source, dest);
+		return;
+	}
+
+	// Moved aside first, so a failed symlink can put it back
+	const aside = previous ?? `${dest}.dotfiles-${Date.now()}`;
+	renameSync(dest, aside);
+
+	try {
+		symlinkSync(source, dest);
+	} catch (error) {
+		renameSync(aside, dest);
+		throw error;
+	}
+
+	if (!previous) {
+		rmSync(aside, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,448 @@
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { basename, dirname, join, relative } from "node:path";
+import { fileExists, readTextFile } from "./fs-helper.ts";
+import { validateHelixConfig } from "./helix-theme.ts";
+import { getModuleFilePairs } from "./install-state.ts";
+import { parseJsoncDocument } from "./json-helper.ts";
+import {
+	describeSystemFile,
+	getLayeredFilePath,
+	getSourcePath,
+	getSystemPath,
+	getTemplatePath,
+	type ModuleDefinition,
+	repoRoot,
+} from "./manifest.ts";
+import { withRenderedFiles } from "./template.ts";
+import { parseTomlDocument } from "./toml-helper.ts";
+
+export interface LintProblem {
+	/** File as shown to the user, e.g. configs/helix/config.toml */
+	file: string;
+	line?: number;
+	column?: number;
+	message: string;
+	severity: "error" | "warning";
+}
+
+/** Which copies of a module to lint */
+export type LintSide = "repo" | "system";
+
+type Linter = (text: string, path: string) => Omit<LintProblem, "file">[];
+
+/** tmux commands and their aliases, as listed by `tmux list-commands` */
+const TMUX_COMMANDS = new Set(
+	`attach-session attach bind-key bind break-pane breakp capture-pane capturep
+	choose-buffer choose-client choose-tree clear-history clearhist
+	clear-prompt-history clearphist clock-mode command-prompt confirm-before
+	confirm copy-mode customize-mode delete-buffer deleteb detach-client detach
+	display-menu menu display-message display display-panes displayp
+	display-popup popup find-window findw has-session has if-shell if join-pane
+	joinp kill-pane killp kill-server kill-session kill-window killw last-pane
+	lastp last-window last link-window linkw list-buffers lsb list-clients lsc
+	list-commands lscm list-keys lsk list-panes lsp list-sessions ls
+	list-windows lsw load-buffer loadb lock-client lockc lock-server lock
+	lock-session locks move-pane movep move-window movew new-session new
+	new-window neww next-layout nextl next-window next paste-buffer pasteb
+	pipe-pane pipep previous-layout prevl previous-window prev refresh-client
+	refresh rename-session rename rename-window renamew resize-pane resizep
+	resize-window resizew respawn-pane respawnp respawn-window respawnw
+	rotate-window rotatew run-shell run save-buffer saveb select-layout selectl
+	select-pane selectp select-window selectw send-keys send send-prefix
+	server-access set-buffer setb set-environment setenv set-hook set-option
+	set set-window-option setw show-buffer showb show-environment showenv
+	show-hooks show-messages showmsgs show-options show show-prompt-history
+	showphist show-window-options showw source-file source split-window splitw
+	start-server start suspend-client suspendc swap-pane swapp swap-window
+	swapw switch-client switchc unbind-key unbind unlink-window unlinkw
+	wait-for wait`.split(/\s+/),
+);
+
+/** Commands whose first argument (after flags) is required */
+const TMUX_REQUIRED_ARGUMENT: Record<string, string> = {
+	"set-option": "an option name",
+	set: "an option name",
+	"set-window-option": "an option name",
+	setw: "an option name",
+	"bind-key": "a key",
+	bind: "a key",
+	"unbind-key": "a key",
+	unbind: "a key",
+	"source-file": "a file",
+	source: "a file",
+};
+
+/**
+ * Split a parser error ("... at line 3, column 7") into its parts
+ */
+function parseLocatedError(error: unknown): Omit<LintProblem, "file"> {
+	const message = error instanceof Error ? error.message : String(error);
+	const match = message.match(/^(.*) at line (\d+), column (\d+)$/s);
+	if (!match) {
+		return { message, severity: "error" };
+	}
+	return {
+		message: match[1],
+		line: Number(match[2]),
+		column: Number(match[3]),
+		severity: "error",
+	};
+}
+
+function lintJsonc(text: string): Omit<LintProblem, "file">[] {
+	try {
+		parseJsoncDocument(text);
+		return [];
+	} catch (error) {
+		return [parseLocatedError(error)];
+	}
+}
+
+function lintToml(text: string): Omit<LintProblem, "file">[] {
+	try {
+		parseTomlDocument(text);
+		return [];
+	} catch (error) {
+		return [parseLocatedError(error)];
+	}
+}
+
+interface TmuxWord {
+	text: string;
+	column: number;
+}
+
+/**
+ * Split a tmux command line into commands and their words, keeping quoted
+ * strings together. Returns the column of an unterminated quote instead.
+ */
+function splitTmuxCommands(line: string): TmuxWord[][] | number {
+	const words: TmuxWord[] = [];
+	let start: number | undefined;
+	let quote: string | undefined;
+	let quoteColumn = 0;
+
+	const endWord = (end: number) => {
+		if (start !== undefined) {
+			words.push({ text: line.slice(start, end), column: start + 1 });
+			start = undefined;
+		}
+	};
+
+	let index = 0;
+	for (; index < line.length; index++) {
+		const char = line[index];
+		if (quote) {
+			if (char === "\\" && quote === '"') {
+				index++;
+			} else if (char === quote) {
+				quote = undefined;
+			}
+			continue;
+		}
+		if (char === " " || char === "\t") {
+			endWord(index);
+			continue;
+		}
+		if (char === "#" && start === undefined) {
+			break;
+		}
+		start ??= index;
+		if (char === "'" || char === '"') {
+			quote = char;
+			quoteColumn = index + 1;
+		} else if (char === "\\") {
+			index++;
+		}
+	}
+	if (quote) {
+		return quoteColumn;
+	}
+	endWord(Math.min(index, line.length));
+
+	// A lone `;` (or an escaped one) separates commands on one line
+	const commands: TmuxWord[][] = [[]];
+	for (const word of words) {
+		if (word.text === ";" || word.text === "\\;") {
+			commands.push([]);
+		} else {
+			commands[commands.length - 1].push(word);
+		}
+	}
+	return commands.filter((command) => command.length > 0);
+}
+
+/**
+ * Line oriented checks of a tmux.conf: unknown commands, unterminated quotes
+ * and commands missing their option name or key
+ */
+function lintTmuxConf(text: string): Omit<LintProblem, "file">[] {
+	const problems: Omit<LintProblem, "file">[] = [];
+	const lines = text.split("\n");
+
+	for (let index = 0; index < lines.length; index++) {
+		const lineNumber = index + 1;
+		let line = lines[index];
+		// A trailing backslash continues the command on the next line
+		while (line.endsWith("\\") && index + 1 < lines.length) {
+			index++;
+			line = `${line.slice(0, -1)}${lines[index]}`;
+		}
+
+		const commands = splitTmuxCommands(line);
+		if (typeof commands === "number") {
+			problems.push({
+				line: lineNumber,
+				column: commands,
+				message: "Unterminated quote",
+				severity: "error",
+			});
+			continue;
+		}
+
+		for (const words of commands) {
+			const [command, ...args] = words;
+			// Directives, braces of multi-line blocks and variable assignments
+			if (
+				/^%(if|elif|else|endif|hidden)$/.test(command.text) ||
+				/^[{}]$/.test(command.text) ||
+				/^[A-Za-z_][A-Za-z0-9_]*=/.test(command.text)
+			) {
+				continue;
+			}
+			if (!TMUX_COMMANDS.has(command.text)) {
+				problems.push({
+					line: lineNumber,
+					column: command.column,
+					message: `Unknown tmux command '${command.text}'`,
+					severity: "error",
+				});
+				continue;
+			}
+			const required = TMUX_REQUIRED_ARGUMENT[command.text];
+			if (required && !args.some((arg) => !arg.text.startsWith("-"))) {
+				problems.push({
+					line: lineNumber,
+					column: command.column,
+					message: `'${command.text}' needs ${required}`,
+					severity: "error",
+				});
+			}
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Check shell syntax with `bash -n`, which reads the script without running
+ * it. The text is passed on stdin, as rendered files are not on disk.
+ */
+function lintShell(text: string): Omit<LintProblem, "file">[] {
+	const result = spawnSync("bash", ["-n"], {
+		input: text,
+		encoding: "utf-8",
+		timeout: 10_000,
+	});
+	if (result.error) {
+		return [
+			{
+				message: `Could not run bash -n: ${result.error.message}`,
+				severity: "warning",
+			},
+		];
+	}
+
+	return result.stderr
+		.split("\n")
+		.filter((line) => line.trim() !== "")
+		.map((line) => {
+			const match = line.match(/: line (\d+): (.*)$/);
+			return match
+				? { line: Number(match[1]), message: match[2], severity: "error" }
+				: { message: line, severity: "error" };
+		});
+}
+
+function getLinter(path: string): Linter | undefined {
+	const name = basename(path);
+	if (/\.jsonc?$/.test(name)) {
+		return lintJsonc;
+	}
+	if (name.endsWith(".toml")) {
+		return lintToml;
+	}
+	if (name.endsWith("tmux.conf")) {
+		return lintTmuxConf;
+	}
+	if (/(^|\.)(bashrc|bash_profile|profile)$|\.(ba)?sh$/.test(name)) {
+		return lintShell;
+	}
+	return undefined;
+}
+
+/**
+ * Lint one file with the parser for its type. Files of other types have no
+ * problems.
+ */
+export function lintFile(path: string, label = path): LintProblem[] {
+	const linter = getLinter(path);
+	if (!linter || !fileExists(path)) {
+		return [];
+	}
+	return linter(readTextFile(path), path).map((problem) => ({
+		file: label,
+		...problem,
+	}));
+}
+
+/**
+ * Repo relative path of a repo file, naming the template for rendered files
+ */
+function describeRepoFile(module: ModuleDefinition, repoFile: string): string {
+	const path = relative(repoRoot, repoFile);
+	if (!path.startsWith("..")) {
+		return path;
+	}
+	const source = getTemplatePath(module) ?? getSourcePath(module);
+	return `${relative(repoRoot, source)} (rendered)`;
+}
+
+/**
+ * The files of a module that can be linted, with the name to report them by.
+ * The system side of a block module is the whole file holding the block.
+ */
+export function getLintFiles(
+	module: ModuleDefinition,
+	sides: LintSide[] = ["repo", "system"],
+): { path: string; label: string }[] {
+	const files: { path: string; label: string }[] = [];
+
+	for (const { repoFile, systemFile } of getModuleFilePairs(module)) {
+		if (sides.includes("repo") && fileExists(repoFile)) {
+			files.push({
+				path: repoFile,
+				label: describeRepoFile(module, repoFile),
+			});
+		}
+		if (sides.includes("system")) {
+			const path =
+				module.merge === "block" ? getSystemPath(module) : systemFile;
+			if (existsSync(path)) {
+				files.push({ path, label: describeSystemFile(module, systemFile) });
+			}
+		}
+	}
+
+	return files.filter((file) => getLinter(file.path));
+}
+
+/**
+ * Run the module's validator (`validate` in dotfiles.json) on a copy of its
+ * files: the repo copy, the installed copy or one about to be installed.
+ * `describe` names the files in the problems.
+ */
+export function validateModuleFiles(
+	module: ModuleDefinition,
+	path: string,
+	describe: (path: string) => string,
+): LintProblem[] {
+	switch (module.validate) {
+		case "helix":
+			return validateHelixConfig(
+				module.type === "directory" ? path : dirname(path),
+				describe,
+			);
+		default:
+			return [];
+	}
+}
+
+/**
+ * Check the files about to be installed with the module's validator, before
+ * writing anything
+ */
+export function checkModuleValidation(
+	module: ModuleDefinition,
+	from?: string,
+): void {
+	const errors = withRenderedFiles(
+		module,
+		(source) => {
+			const [dir, repoDir] =
+				module.type === "directory"
+					? [source, module.repoPath]
+					: [dirname(source), dirname(module.repoPath)];
+			return validateModuleFiles(module, source, (path) =>
+				join(repoDir, relative(dir, path)),
+			);
+		},
+		from,
+	).filter((problem) => problem.severity === "error");
+
+	if (errors.length > 0) {
+		throw new Error(
+			`${errors.map(formatLintProblem).join("\n  ")}\n  (use --force to install anyway)`,
+		);
+	}
+}
+
+/**
+ * Run the module's validator on its repo and installed copies
+ */
+export function validateModule(
+	module: ModuleDefinition,
+	sides: LintSide[] = ["repo", "system"],
+): LintProblem[] {
+	if (!module.validate) {
+		return [];
+	}
+
+	const problems: LintProblem[] = [];
+	if (sides.includes("repo")) {
+		problems.push(
+			...withRenderedFiles(module, (source) =>
+				validateModuleFiles(module, source, (path) =>
+					module.type === "directory"
+						? relative(
+								repoRoot,
+								getLayeredFilePath(module, relative(source, path)),
+							)
+						: describeRepoFile(module, path),
+				),
+			),
+		);
+	}
+	const systemPath = getSystemPath(module);
+	if (sides.includes("system") && existsSync(systemPath)) {
+		problems.push(
+			...validateModuleFiles(module, systemPath, (path) =>
+				describeSystemFile(module, path),
+			),
+		);
+	}
+	return problems;
+}
+
+export function lintModule(
+	module: ModuleDefinition,
+	sides?: LintSide[],
+): LintProblem[] {
+	return [
+		...getLintFiles(module, sides).flatMap(({ path, label }) =>
+			lintFile(path, label),
+		),
+		...validateModule(module, sides),
+	];
+}
+
+/**
+ * Format a problem like a compiler: file:line:column: message
+ */
+export function formatLintProblem(problem: LintProblem): string {
+	const location = [problem.file, problem.line, problem.column]
+		.filter((part) => part !== undefined)
+		.join(":");
+	return `${location}: ${problem.message}`;
+}
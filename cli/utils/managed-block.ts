@@ -0,0 +1,151 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { setMemoryFile } from "./fs-helper.ts";
+import {
+	getStateDir,
+	getSystemPath,
+	type ModuleDefinition,
+} from "./manifest.ts";
+
+export const BLOCK_START = "# >>> dotfiles >>>";
+export const BLOCK_END = "# <<< dotfiles <<<";
+
+/** The marker lines around a block */
+export interface BlockMarkers {
+	start: string;
+	end: string;
+}
+
+const DOTFILES_MARKERS: BlockMarkers = { start: BLOCK_START, end: BLOCK_END };
+
+interface ManagedBlock {
+	/** Offset of the start marker line */
+	start: number;
+	/** Offset just past the end marker line */
+	end: number;
+	/** Lines between the markers */
+	content: string;
+}
+
+/**
+ * Find the block between the `# >>> dotfiles >>>` and `# <<< dotfiles <<<`
+ * marker lines (or other markers). `name` is used in errors about unbalanced
+ * markers.
+ */
+export function findManagedBlock(
+	text: string,
+	name: string,
+	{ start: startMarker, end: endMarker }: BlockMarkers = DOTFILES_MARKERS,
+): ManagedBlock | undefined {
+	let block: ManagedBlock | undefined;
+	let start: number | undefined;
+	let contentStart = 0;
+	let offset = 0;
+
+	for (const line of text.split(/(?<=\n)/)) {
+		const marker = line.trim();
+		if (marker === startMarker) {
+			if (start !== undefined || block) {
+				throw new Error(`${name} has more than one '${startMarker}' line`);
+			}
+			start = offset;
+			contentStart = offset + line.length;
+		} else if (marker === endMarker) {
+			if (start === undefined) {
+				throw new Error(`${name} has '${endMarker}' without '${startMarker}'`);
+			}
+			block = {
+				start,
+				end: offset + line.length,
+				content: text.slice(contentStart, offset),
+			};
+			start = undefined;
+		}
+		offset += line.length;
+	}
+
+	if (start !== undefined) {
+		throw new Error(`${name} has '${startMarker}' without '${endMarker}'`);
+	}
+	return block;
+}
+
+/**
+ * Write `content` between the markers, replacing the current block or
+ * appending a new one at the end of the file
+ */
+export function replaceManagedBlock(
+	text: string,
+	content: string,
+	name: string,
+	markers: BlockMarkers = DOTFILES_MARKERS,
+): string {
+	const body =
+		content === "" || content.endsWith("\n") ? content : `${content}\n`;
+	const block = `${markers.start}\n${body}${markers.end}\n`;
+
+	const existing = findManagedBlock(text, name, markers);
+	if (existing) {
+		return text.slice(0, existing.start) + block + text.slice(existing.end);
+	}
+	if (text === "") {
+		return block;
+	}
+	return `${text}${text.endsWith("\n") ? "" : "\n"}\n${block}`;
+}
+
+/**
+ * Non-blank lines outside the block, written by other tools or by hand
+ */
+function getForeignLines(text: string, name: string): string[] {
+	const block = findManagedBlock(text, name);
+	const outside = block
+		? text.slice(0, block.start) + text.slice(block.end)
+		: text;
+	return outside.split("\n").filter((line) => line.trim() !== "");
+}
+
+/**
+ * Path of the installed copy of a module to compare with the repo. For
+ * `"merge": "block"` modules this is a copy of just the block, kept in memory
+ * under the state directory (see setMemoryFile) and absent when the system
+ * file or its block is missing.
+ */
+export function getInstalledPath(module: ModuleDefinition): string {
+	const systemPath = getSystemPath(module);
+	if (module.merge !== "block") {
+		return systemPath;
+	}
+
+	const blockPath = join(getStateDir(), "blocks", module.repoPath);
+	const block = existsSync(systemPath)
+		? findManagedBlock(readFileSync(systemPath, "utf-8"), module.systemPath)
+		: undefined;
+	setMemoryFile(blockPath, block?.content ?? null);
+	return blockPath;
+}
+
+/**
+ * Lines of a `"merge": "block"` module's system file before the block content
+ * (up to the start marker), to turn lines of the block into lines of the file
+ */
+export function getBlockLineOffset(module: ModuleDefinition): number {
+	const systemPath = getSystemPath(module);
+	if (module.merge !== "block" || !existsSync(systemPath)) {
+		return 0;
+	}
+	const text = readFileSync(systemPath, "utf-8");
+	const block = findManagedBlock(text, module.systemPath);
+	return block ? text.slice(0, block.start).split("\n").length : 0;
+}
+
+/**
+ * Lines outside the block of a `"merge": "block"` module's system file
+ */
+export function getModuleForeignLines(module: ModuleDefinition): string[] {
+	const systemPath = getSystemPath(module);
+	if (module.merge !== "block" || !existsSync(systemPath)) {
+		return [];
+	}
+	return getForeignLines(readFileSync(systemPath, "utf-8"), module.systemPath);
+}
@@ -0,0 +1,498 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir, hostname } from "node:os";
+import { dirname, join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseVersion } from "./version.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const repoRoot = join(__dirname, "../..");
+export const manifestPath = join(repoRoot, "dotfiles.json");
+
+export type ModuleType = "file" | "directory";
+export type MergeStrategy = "none" | "json" | "text" | "block";
+export type Validator = "helix";
+
+export interface ModuleDefinition {
+	name: string;
+	label: string;
+	aliases: string[];
+	type: ModuleType;
+	/** Path relative to configs/ (and to each backup folder) */
+	repoPath: string;
+	/** Path on the system, `~` is expanded to the home directory */
+	systemPath: string;
+	merge: MergeStrategy;
+	/** Name of the tool in `tools` that uses this configuration */
+	tool?: string;
+	/** Checks beyond syntax: "helix" resolves and validates the themes */
+	validate?: Validator;
+}
+
+export interface ToolDefinition {
+	name: string;
+	label: string;
+	aliases: string[];
+	/** Command that must be resolvable with `command -v` */
+	command?: string;
+	/** Path that must exist, `~` is expanded to the home directory */
+	path?: string;
+	optional: boolean;
+	hint?: string;
+	installUrl?: string;
+	/** Oldest version the configs work with, e.g. "3.3" */
+	minVersion?: string;
+	/** Command printing the version, defaults to `<command> --version` */
+	versionCommand?: string;
+}
+
+/** Default policy for `dotfiles backup prune` */
+export interface BackupRetention {
+	/** Keep this many of the newest backups */
+	keepLast?: number;
+	/** Keep the newest backup of each of this many most recent days */
+	keepDaily?: number;
+}
+
+export interface Manifest {
+	modules: ModuleDefinition[];
+	tools: ToolDefinition[];
+	backupRetention: BackupRetention;
+}
+
+const MODULE_TYPES: ModuleType[] = ["file", "directory"];
+const MERGE_STRATEGIES: MergeStrategy[] = ["none", "json", "text", "block"];
+const VALIDATORS: Validator[] = ["helix"];
+
+/** Subcommand names that modules cannot use */
+const RESERVED_NAMES = ["all", "list", "show", "prune", "verify"];
+
+let cachedManifest: Manifest | undefined;
+
+/** An entry of dotfiles.json as written, before it is validated */
+type ManifestEntry = Record<string, unknown>;
+
+function toManifestEntry(value: unknown, where: string): ManifestEntry {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new Error(`${where} must be an object`);
+	}
+	return value as ManifestEntry;
+}
+
+function requireString(
+	entry: ManifestEntry,
+	key: string,
+	where: string,
+): string {
+	const value = entry[key];
+	if (typeof value !== "string" || value === "") {
+		throw new Error(`${where}.${key} must be a non-empty string`);
+	}
+	return value;
+}
+
+function optionalString(entry: ManifestEntry, key: string, where: string) {
+	if (entry[key] === undefined) {
+		return undefined;
+	}
+	return requireString(entry, key, where);
+}
+
+function readAliases(entry: ManifestEntry, where: string): string[] {
+	const aliases = entry.aliases ?? [];
+	if (
+		!Array.isArray(aliases) ||
+		aliases.some((alias) => typeof alias !== "string")
+	) {
+		throw new Error(`${where}.aliases must be an array of strings`);
+	}
+	return aliases;
+}
+
+function optionalCount(entry: ManifestEntry, key: string, where: string) {
+	const value = entry[key];
+	if (value === undefined) {
+		return undefined;
+	}
+	if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+		throw new Error(`${where}.${key} must be a non-negative integer`);
+	}
+	return value;
+}
+
+function parseModule(value: unknown, where: string): ModuleDefinition {
+	const entry = toManifestEntry(value, where);
+	const type = requireString(entry, "type", where) as ModuleType;
+	if (!MODULE_TYPES.includes(type)) {
+		throw new Error(`${where}.type must be one of: ${MODULE_TYPES.join(", ")}`);
+	}
+
+	const merge = (optionalString(entry, "merge", where) ??
+		"none") as MergeStrategy;
+	if (!MERGE_STRATEGIES.includes(merge)) {
+		throw new Error(
+			`${where}.merge must be one of: ${MERGE_STRATEGIES.join(", ")}`,
+		);
+	}
+
+	if (merge === "block" && type !== "file") {
+		throw new Error(`${where}.merge "block" is only supported for files`);
+	}
+
+	const validate = optionalString(entry, "validate", where) as
+		| Validator
+		| undefined;
+	if (validate && !VALIDATORS.includes(validate)) {
+		throw new Error(
+			`${where}.validate must be one of: ${VALIDATORS.join(", ")}`,
+		);
+	}
+
+	const name = requireString(entry, "name", where);
+
+	return {
+		name,
+		label: optionalString(entry, "label", where) ?? name,
+		aliases: readAliases(entry, where),
+		type,
+		repoPath: requireString(entry, "repoPath", where),
+		systemPath: requireString(entry, "systemPath", where),
+		merge,
+		tool: optionalString(entry, "tool", where),
+		validate,
+	};
+}
+
+function parseTool(value: unknown, where: string): ToolDefinition {
+	const entry = toManifestEntry(value, where);
+	const name = requireString(entry, "name", where);
+	const command = optionalString(entry, "command", where);
+	const path = optionalString(entry, "path", where);
+
+	if (!command && !path) {
+		throw new Error(`${where} must declare either "command" or "path"`);
+	}
+
+	const minVersion = optionalString(entry, "minVersion", where);
+	const versionCommand = optionalString(entry, "versionCommand", where);
+	if (minVersion && !parseVersion(minVersion)) {
+		throw new Error(`${where}.minVersion must be a version like "3.3"`);
+	}
+	if (minVersion && !command && !versionCommand) {
+		throw new Error(`${where}.minVersion needs "command" or "versionCommand"`);
+	}
+
+	return {
+		name,
+		label: optionalString(entry, "label", where) ?? name,
+		aliases: readAliases(entry, where),
+		command,
+		path,
+		optional: entry.optional === true,
+		hint: optionalString(entry, "hint", where),
+		installUrl: optionalString(entry, "installUrl", where),
+		minVersion,
+		versionCommand,
+	};
+}
+
+/**
+ * Parse and validate the contents of dotfiles.json
+ */
+export function parseManifest(content: string): Manifest {
+	const raw = JSON.parse(content);
+
+	if (!Array.isArray(raw.modules)) {
+		throw new Error("dotfiles.json: modules must be an array");
+	}
+
+	const modules: ModuleDefinition[] = raw.modules.map(
+		(entry: unknown, index: number) =>
+			parseModule(entry, `dotfiles.json: modules[${index}]`),
+	);
+	const tools: ToolDefinition[] = (raw.tools ?? []).map(
+		(entry: unknown, index: number) =>
+			parseTool(entry, `dotfiles.json: tools[${index}]`),
+	);
+
+	const retention = toManifestEntry(
+		raw.backupRetention ?? {},
+		"dotfiles.json: backupRetention",
+	);
+	const backupRetention: BackupRetention = {
+		keepLast: optionalCount(
+			retention,
+			"keepLast",
+			"dotfiles.json: backupRetention",
+		),
+		keepDaily: optionalCount(
+			retention,
+			"keepDaily",
+			"dotfiles.json: backupRetention",
+		),
+	};
+
+	const seen = new Set<string>(RESERVED_NAMES);
+	for (const module of modules) {
+		for (const name of [module.name, ...module.aliases]) {
+			if (seen.has(name)) {
+				throw new Error(
+					`dotfiles.json: module name or alias '${name}' is reserved or used more than once`,
+				);
+			}
+			seen.add(name);
+		}
+		if (module.tool && !tools.some((tool) => tool.name === module.tool)) {
+			throw new Error(
+				`dotfiles.json: module '${module.name}' references unknown tool '${module.tool}'`,
+			);
+		}
+	}
+
+	// Tools without a module get their own verify subcommand, so they share the namespace
+	for (const tool of tools) {
+		if (modules.some((module) => module.tool === tool.name)) {
+			continue;
+		}
+		for (const name of [tool.name, ...tool.aliases]) {
+			if (seen.has(name)) {
+				throw new Error(
+					`dotfiles.json: tool name or alias '${name}' is already used by a module`,
+				);
+			}
+			seen.add(name);
+		}
+	}
+
+	return { modules, tools, backupRetention };
+}
+
+/**
+ * Load the module manifest from the repo root (cached after the first call)
+ */
+export function loadManifest(): Manifest {
+	if (!cachedManifest) {
+		cachedManifest = parseManifest(readFileSync(manifestPath, "utf-8"));
+	}
+	return cachedManifest;
+}
+
+export function getModules(): ModuleDefinition[] {
+	return loadManifest().modules;
+}
+
+export function getTools(): ToolDefinition[] {
+	return loadManifest().tools;
+}
+
+export function getBackupRetention(): BackupRetention {
+	return loadManifest().backupRetention;
+}
+
+/**
+ * Find a module by its name or one of its aliases
+ */
+export function findModule(name: string): ModuleDefinition | undefined {
+	return getModules().find(
+		(module) => module.name === name || module.aliases.includes(name),
+	);
+}
+
+export function findTool(name: string): ToolDefinition | undefined {
+	return getTools().find((tool) => tool.name === name);
+}
+
+/**
+ * Expand a leading `~` to the current user's home directory
+ */
+export function expandHome(path: string): string {
+	if (path === "~") {
+		return homedir();
+	}
+	if (path.startsWith("~/")) {
+		return join(homedir(), path.slice(2));
+	}
+	return path;
+}
+
+/**
+ * Directory holding dotfiles state on this machine ($XDG_STATE_HOME/dotfiles)
+ */
+export function getStateDir(): string {
+	const stateHome =
+		process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+	return join(stateHome, "dotfiles");
+}
+
+/**
+ * Directory holding machine-local dotfiles settings ($XDG_CONFIG_HOME/dotfiles)
+ */
+export function getConfigDir(): string {
+	const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+	return join(configHome, "dotfiles");
+}
+
+/**
+ * Absolute path of the module inside the system
+ */
+export function getSystemPath(module: ModuleDefinition): string {
+	return expandHome(module.systemPath);
+}
+
+/** A directory of configs that can hold any module's repoPath */
+export interface SourceLayer {
+	/** Path relative to configs/, empty for the base layer */
+	name: string;
+	dir: string;
+}
+
+let activeProfile: string | undefined = process.env.DOTFILES_PROFILE;
+
+/**
+ * Select the profile (configs/profiles/<name>/) layered over the base configs
+ */
+export function setProfile(name: string | undefined): void {
+	if (name && !existsSync(join(repoRoot, "configs", "profiles", name))) {
+		throw new Error(
+			`Unknown profile: ${name} (configs/profiles/${name} not found)`,
+		);
+	}
+	activeProfile = name;
+}
+
+export function getHostName(): string {
+	return hostname().split(".")[0];
+}
+
+/**
+ * Source layers, lowest priority first: configs/, then the profile
+ * (configs/profiles/<name>/), then this host (configs/hosts/<hostname>/)
+ */
+export function getSourceLayers(): SourceLayer[] {
+	const layers: SourceLayer[] = [{ name: "", dir: join(repoRoot, "configs") }];
+	if (activeProfile) {
+		layers.push({
+			name: `profiles/${activeProfile}`,
+			dir: join(repoRoot, "configs", "profiles", activeProfile),
+		});
+	}
+	layers.push({
+		name: `hosts/${getHostName()}`,
+		dir: join(repoRoot, "configs", "hosts", getHostName()),
+	});
+	return layers;
+}
+
+/**
+ * Layers that hold the file (or template) at `path`, relative to each layer,
+ * lowest priority first
+ */
+export function findLayersWith(path: string): SourceLayer[] {
+	return getSourceLayers().filter(
+		(layer) =>
+			existsSync(join(layer.dir, path)) ||
+			existsSync(join(layer.dir, `${path}.tmpl`)),
+	);
+}
+
+/**
+ * Layer a module's source comes from. Text files come whole from the highest
+ * layer that has them; JSON files and directories start from the lowest one
+ * and the layers above are overlaid (see getOverlayPaths).
+ */
+function getSourceLayer(module: ModuleDefinition): SourceLayer {
+	const layers = findLayersWith(module.repoPath);
+	const layer =
+		module.type === "file" && module.merge !== "json"
+			? layers[layers.length - 1]
+			: layers[0];
+	return layer ?? getSourceLayers()[0];
+}
+
+/**
+ * Absolute paths of the overlays applied on top of a module's source:
+ * the module's JSON file or directory in each higher layer that has one
+ */
+export function getOverlayPaths(module: ModuleDefinition): string[] {
+	if (module.type === "file" && module.merge !== "json") {
+		return [];
+	}
+	const base = getSourceLayer(module);
+	return findLayersWith(module.repoPath)
+		.filter((layer) => layer.dir !== base.dir)
+		.map((layer) => join(layer.dir, module.repoPath));
+}
+
+/**
+ * Absolute path of the module inside configs/ (or the layer it comes from),
+ * or inside a backup when `from` is given
+ */
+export function getSourcePath(module: ModuleDefinition, from?: string): string {
+	return from
+		? join(repoRoot, "backups", from, module.repoPath)
+		: join(getSourceLayer(module).dir, module.repoPath);
+}
+
+/**
+ * Absolute path of a file inside a directory module, taken from the highest
+ * layer that has it (the base layer for files that are in none)
+ */
+export function getLayeredFilePath(
+	module: ModuleDefinition,
+	relativePath: string,
+): string {
+	const path = join(module.repoPath, relativePath);
+	const layers = findLayersWith(path);
+	const layer = layers[layers.length - 1] ?? getSourceLayers()[0];
+	return join(layer.dir, path);
+}
+
+/**
+ * Absolute path of the module's template (`<repoPath>.tmpl` in configs/),
+ * if the module is a file rendered from one. Backups hold rendered files.
+ */
+export function getTemplatePath(
+	module: ModuleDefinition,
+	from?: string,
+): string | undefined {
+	if (from || module.type !== "file") {
+		return undefined;
+	}
+	const templatePath = `${getSourcePath(module)}.tmpl`;
+	return existsSync(templatePath) ? templatePath : undefined;
+}
+
+/**
+ * Repo relative path of the module source, used in messages
+ */
+export function describeSourcePath(
+	module: ModuleDefinition,
+	from?: string,
+): string {
+	if (from) {
+		return `backups/${from}/${module.repoPath}`;
+	}
+	const source = relative(
+		repoRoot,
+		getTemplatePath(module) ?? getSourcePath(module),
+	);
+	const overlays = getOverlayPaths(module).map((path) =>
+		relative(repoRoot, path),
+	);
+	return overlays.length > 0 ? `${source} + ${overlays.join(" + ")}` : source;
+}
+
+/**
+ * Path of one of a module's system files as written in the manifest, used in
+ * messages
+ */
+export function describeSystemFile(
+	module: ModuleDefinition,
+	systemFile: string,
+): string {
+	if (module.type === "file") {
+		return module.systemPath;
+	}
+	return join(module.systemPath, relative(getSystemPath(module), systemFile));
+}
@@ -0,0 +1,215 @@
+import { spawnSync } from "node:child_process";
+import {
+	mkdtempSync,
+	openSync,
+	readFileSync,
+	readSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { getLineChanges, type LineChange, splitLines } from "./diff.ts";
+import { getTextStream } from "./report.ts";
+import { writeText } from "./terminal.ts";
+
+/** Lines of context shown around each hunk */
+const CONTEXT_LINES = 3;
+
+const HELP = `y - apply this hunk
+n - skip this hunk
+e - edit the lines this hunk writes, then apply them
+q - quit; skip this hunk and all the remaining ones
+? - print help`;
+
+/**
+ * State shared by the files of one `--patch` run, so quitting in one file
+ * stops the questions for all the files after it
+ */
+export interface PatchSession {
+	quit: boolean;
+}
+
+export interface PatchOutcome {
+	/** The current text with the chosen hunks applied */
+	content: string;
+	/** Number of hunks offered */
+	hunks: number;
+	/** Number of hunks applied */
+	applied: number;
+}
+
+/** Blocking descriptor for the answers, opened on the first question */
+let input: number | undefined;
+
+/**
+ * stdin can be non-blocking (a tty Node has set up, or a pipe), where reads
+ * fail with EAGAIN until input arrives. Opening /dev/stdin again gives a
+ * blocking descriptor for the same input.
+ */
+function getInput(): number {
+	if (input === undefined) {
+		try {
+			input = openSync("/dev/stdin", "r");
+		} catch {
+			// No /dev/stdin (Windows), where stdin reads block anyway
+			input = 0;
+		}
+	}
+	return input;
+}
+
+/**
+ * Read one answer from stdin. Reading the file descriptor directly keeps the
+ * commands synchronous. Returns undefined at the end of the input.
+ */
+function ask(question: string): string | undefined {
+	writeText(question, getTextStream());
+	const byte = Buffer.alloc(1);
+	const bytes: number[] = [];
+
+	for (;;) {
+		if (readSync(getInput(), byte, 0, 1, null) === 0) {
+			getTextStream().write("\n");
+			return bytes.length > 0
+				? Buffer.from(bytes).toString().trim()
+				: undefined;
+		}
+		if (byte[0] === 0x0a) {
+			return Buffer.from(bytes).toString().trim();
+		}
+		bytes.push(byte[0]);
+	}
+}
+
+/**
+ * Print a line of the questions, kept out of stdout in report mode
+ */
+function print(line = "") {
+	writeText(`${line}\n`, getTextStream());
+}
+
+function stripNewline(line: string): string {
+	return line.replace(/\r?\n$/, "");
+}
+
+/**
+ * A side of a hunk header. As in `diff -u`, an empty side names the line
+ * before it, so an insertion after line 4 reads `-4,0`.
+ */
+function formatRange(start: number, count: number): string {
+	return `${count === 0 ? start : start + 1},${count}`;
+}
+
+function displayHunk(lines: string[], change: LineChange, newStart: number) {
+	const removed = change.end - change.start;
+	print(
+		`\x1b[36m@@ -${formatRange(change.start, removed)} +${formatRange(newStart, change.lines.length)} @@\x1b[0m`,
+	);
+	for (const line of lines.slice(
+		Math.max(0, change.start - CONTEXT_LINES),
+		change.start,
+	)) {
+		print(`\x1b[2m  ${stripNewline(line)}\x1b[0m`);
+	}
+	for (const line of lines.slice(change.start, change.end)) {
+		print(`\x1b[31m- ${stripNewline(line)}\x1b[0m`);
+	}
+	for (const line of change.lines) {
+		print(`\x1b[32m+ ${stripNewline(line)}\x1b[0m`);
+	}
+	for (const line of lines.slice(change.end, change.end + CONTEXT_LINES)) {
+		print(`\x1b[2m  ${stripNewline(line)}\x1b[0m`);
+	}
+}
+
+/**
+ * Let the user edit the lines a hunk writes in $VISUAL or $EDITOR. Returns
+ * undefined when the editor fails.
+ */
+function editHunkLines(lines: string[], label: string): string[] | undefined {
+	const dir = mkdtempSync(join(tmpdir(), "dotfiles-patch-"));
+	const file = join(dir, basename(label));
+	try {
+		writeFileSync(file, lines.join(""));
+		const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+		// Through the shell, so the editor can come with arguments (code --wait)
+		const result = spawnSync(`${editor} ${JSON.stringify(file)}`, {
+			shell: true,
+			stdio: ["inherit", getTextStream(), "inherit"],
+		});
+		if (result.status !== 0) {
+			return undefined;
+		}
+		return splitLines(readFileSync(file, "utf-8"));
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Walk the hunks that turn `current` into `incoming`, like `git add -p`,
+ * asking whether to apply each one. `label` names the file being written.
+ */
+export function choosePatchHunks(
+	current: string,
+	incoming: string,
+	label: string,
+	session: PatchSession,
+): PatchOutcome {
+	const lines = splitLines(current);
+	const changes = getLineChanges(lines, splitLines(incoming));
+	const chosen: LineChange[] = [];
+	if (changes.length === 0 || session.quit) {
+		return { content: current, hunks: changes.length, applied: 0 };
+	}
+
+	print(`\x1b[1m\x1b[4m${label}\x1b[0m`);
+	let offset = 0;
+	for (const [index, change] of changes.entries()) {
+		displayHunk(lines, change, change.start + offset);
+		offset += change.lines.length - (change.end - change.start);
+
+		for (;;) {
+			const answer = ask(
+				`\x1b[34m(${index + 1}/${changes.length}) Apply this hunk to ${label} [y,n,e,q,?]? \x1b[0m`,
+			);
+			if (answer === undefined || answer === "q") {
+				session.quit = true;
+				break;
+			}
+			if (answer === "y") {
+				chosen.push(change);
+				break;
+			}
+			if (answer === "n") {
+				break;
+			}
+			if (answer === "e") {
+				const edited = editHunkLines(change.lines, label);
+				if (edited) {
+					chosen.push({ ...change, lines: edited });
+					break;
+				}
+				print("\x1b[31mThe editor failed, the hunk is unchanged\x1b[0m");
+				continue;
+			}
+			print(HELP);
+		}
+		print();
+
+		if (session.quit) {
+			break;
+		}
+	}
+
+	// Apply from the bottom up so earlier line numbers stay valid
+	for (const change of [...chosen].reverse()) {
+		lines.splice(change.start, change.end - change.start, ...change.lines);
+	}
+	return {
+		content: lines.join(""),
+		hunks: changes.length,
+		applied: chosen.length,
+	};
+}
@@ -0,0 +1,199 @@
+import { type FileDiff, hasDifferences, splitChangeLines } from "./diff.ts";
+import type { FileSyncState } from "./install-state.ts";
+import type { ModuleDefinition } from "./manifest.ts";
+import { getModuleDiffs } from "./show-config-diffs.ts";
+
+export type OutputFormat = "text" | "json" | "junit" | "tap";
+
+const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "junit", "tap"];
+
+let outputFormat: OutputFormat = "text";
+
+function isOutputFormat(value: unknown): value is OutputFormat {
+	return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * Select how commands report their results (the global --output option)
+ */
+export function setOutputFormat(format: string): void {
+	if (!isOutputFormat(format)) {
+		throw new Error(
+			`Unknown output format: ${format} (use ${OUTPUT_FORMATS.join(", ")})`,
+		);
+	}
+	outputFormat = format;
+}
+
+/**
+ * Whether results are printed for people, with colors and progress messages
+ */
+export function isTextOutput(): boolean {
+	return outputFormat === "text";
+}
+
+/**
+ * Where progress messages and prompts go: stdout as text, and stderr when
+ * stdout carries a report, so it stays parseable
+ */
+export function getTextStream(): NodeJS.WriteStream {
+	return isTextOutput() ? process.stdout : process.stderr;
+}
+
+/**
+ * One result of a command, in the terms shared by every report format
+ */
+export interface ReportEntry {
+	name: string;
+	status: "passed" | "failed" | "skipped";
+	message?: string;
+	/** The command's own result, serialized as is in JSON */
+	details: object;
+	/** The module the result is about, to summarize its differences */
+	module?: ModuleDefinition;
+}
+
+/**
+ * A file that differs between the repo and the system
+ */
+export interface FileDiffSummary {
+	path: string;
+	/** Repo relative path of the file the repo side comes from */
+	source?: string;
+	change: "modified" | "only-in-repo" | "only-in-system";
+	state?: FileSyncState;
+	/** Lines only on the system side */
+	added: number;
+	/** Lines only on the repo side */
+	removed: number;
+}
+
+function countLines(diff: FileDiff, side: "added" | "removed"): number {
+	return diff.changes
+		.filter((change) => change[side])
+		.reduce((sum, change) => sum + splitChangeLines(change.value).length, 0);
+}
+
+export function summarizeDiffs(diffs: FileDiff[]): FileDiffSummary[] {
+	return diffs.filter(hasDifferences).map((diff) => ({
+		path: diff.installedPath,
+		source: diff.sourcePath,
+		change: diff.onlyInRepo
+			? "only-in-repo"
+			: diff.onlyInSystem
+				? "only-in-system"
+				: "modified",
+		state: diff.state,
+		added: countLines(diff, "added"),
+		removed: countLines(diff, "removed"),
+	}));
+}
+
+function getFiles(entry: ReportEntry): FileDiffSummary[] | undefined {
+	return entry.module
+		? summarizeDiffs(getModuleDiffs(entry.module))
+		: undefined;
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+}
+
+function formatJson(command: string, entries: ReportEntry[]): string {
+	const results = entries.map((entry) => ({
+		...entry.details,
+		status: entry.status,
+		files: getFiles(entry),
+	}));
+	return `${JSON.stringify(
+		{
+			command,
+			success: entries.every((entry) => entry.status !== "failed"),
+			results,
+		},
+		null,
+		2,
+	)}\n`;
+}
+
+function formatJunit(command: string, entries: ReportEntry[]): string {
+	const count = (status: ReportEntry["status"]) =>
+		entries.filter((entry) => entry.status === status).length;
+	const totals = `tests="${entries.length}" failures="${count("failed")}" skipped="${count("skipped")}"`;
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="dotfiles" ${totals}>`,
+		`  <testsuite name="dotfiles ${command}" ${totals}>`,
+	];
+
+	for (const entry of entries) {
+		const message = escapeXml(entry.message ?? "");
+		lines.push(
+			`    <testcase classname="dotfiles.${command}" name="${escapeXml(entry.name)}">`,
+		);
+		if (entry.status === "failed") {
+			lines.push(`      <failure message="${message}"/>`);
+		} else if (entry.status === "skipped") {
+			lines.push(`      <skipped message="${message}"/>`);
+		}
+		const files = getFiles(entry);
+		if (files?.length) {
+			lines.push(
+				`      <system-out>${escapeXml(JSON.stringify(files, null, 2))}</system-out>`,
+			);
+		}
+		lines.push("    </testcase>");
+	}
+
+	lines.push("  </testsuite>", "</testsuites>");
+	return `${lines.join("\n")}\n`;
+}
+
+function formatTap(entries: ReportEntry[]): string {
+	const lines = ["TAP version 13", `1..${entries.length}`];
+
+	entries.forEach((entry, index) => {
+		const ok = entry.status === "failed" ? "not ok" : "ok";
+		const skip =
+			entry.status === "skipped"
+				? ` # SKIP ${(entry.message ?? "").split("\n")[0]}`
+				: "";
+		lines.push(`${ok} ${index + 1} - ${entry.name}${skip}`);
+
+		// Details as YAML, with JSON values (which are valid YAML)
+		const details: Record<string, unknown> = {
+			...entry.details,
+			files: getFiles(entry),
+		};
+		const yaml = Object.entries(details)
+			.filter(([key, value]) => value !== undefined && key !== "name")
+			.map(([key, value]) => `  ${key}: ${JSON.stringify(value)}`);
+		if (yaml.length > 0) {
+			lines.push("  ---", ...yaml, "  ...");
+		}
+	});
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Print the results of a command in the selected machine readable format,
+ * exiting with 1 when any failed
+ */
+export function printReport(command: string, entries: ReportEntry[]): void {
+	if (outputFormat === "json") {
+		process.stdout.write(formatJson(command, entries));
+	} else if (outputFormat === "junit") {
+		process.stdout.write(formatJunit(command, entries));
+	} else {
+		process.stdout.write(formatTap(entries));
+	}
+
+	if (entries.some((entry) => entry.status === "failed")) {
+		process.exit(1);
+	}
+}
@@ -0,0 +1,423 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, join, relative } from "node:path";
+import { fileExists, hashContent, readTextFile } from "./fs-helper.ts";
+import { getModuleFilePairs, getModuleRepoFiles } from "./install-state.ts";
+import {
+	getLineAndColumn,
+	type JsoncNode,
+	parseJsoncDocument,
+} from "./json-helper.ts";
+import { getBlockLineOffset } from "./managed-block.ts";
+import {
+	getOverlayPaths,
+	getSourcePath,
+	getSystemPath,
+	type ModuleDefinition,
+	repoRoot,
+} from "./manifest.ts";
+
+export type SecretRule =
+	| "private-key"
+	| "api-key"
+	| "secret-property"
+	| "secret-export"
+	| "private-url"
+	| "high-entropy";
+
+export interface SecretFinding {
+	rule: SecretRule;
+	/** Offsets of the secret value in the scanned text */
+	start: number;
+	end: number;
+	line: number;
+	column: number;
+	value: string;
+	/** Name for the placeholder that replaces the value when redacting */
+	name: string;
+	/** Short hash of the value, used in the allowlist */
+	fingerprint: string;
+}
+
+export type SecretScanKind = "json" | "shell" | "text";
+
+/** Placeholder left in the repo in place of a secret value */
+export function formatSecretPlaceholder(name: string): string {
+	return `{{secret:${name}}}`;
+}
+
+/** Known credential shapes */
+const KEY_PATTERNS: { rule: SecretRule; pattern: RegExp }[] = [
+	{
+		rule: "private-key",
+		pattern:
+			/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+	},
+	// OpenAI, Anthropic and other sk- keys
+	{ rule: "api-key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+	// GitHub tokens
+	{
+		rule: "api-key",
+		pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})/g,
+	},
+	// AWS access key IDs
+	{ rule: "api-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	// Google API keys
+	{ rule: "api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+	// Slack tokens
+	{ rule: "api-key", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+	// JSON web tokens
+	{
+		rule: "api-key",
+		pattern:
+			/\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+	},
+];
+
+/** JSON keys and shell variable names that hold credentials */
+const SECRET_NAME =
+	/(api[_-]?key|apikey|token|secret|password|passwd|credentials?|private[_-]?key|auth[_-]?key)$/i;
+
+/** JSON keys that hold URLs which may point at private hosts */
+const URL_NAME = /(base[_-]?url|baseurl|endpoint|url)$/i;
+
+const PRIVATE_HOST =
+	/^(10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|[\w.-]+\.(internal|corp|lan|intranet))$/i;
+
+/** Shell exports of credential-looking variables, e.g. export GITHUB_TOKEN=... */
+const SECRET_EXPORT =
+	/^[ \t]*(?:export[ \t]+)?([A-Za-z_]\w*)=(["']?)([^"'\s$`][^"'\s]*)\2/gm;
+
+const ENTROPY_TOKEN = /[A-Za-z0-9+/=_-]{24,}/g;
+
+/**
+ * Shannon entropy in bits per character
+ */
+function getEntropy(value: string): number {
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const p = count / value.length;
+		entropy -= p * Math.log2(p);
+	}
+	return entropy;
+}
+
+/**
+ * Random-looking strings: long, mixing letters and digits, with high entropy
+ */
+function looksRandom(value: string): boolean {
+	return (
+		value.length >= 24 &&
+		/[a-z]/i.test(value) &&
+		/\d/.test(value) &&
+		!/^[a-z]+(?:[-_][a-z]+)*$/i.test(value) &&
+		getEntropy(value) >= 4.2
+	);
+}
+
+function isPrivateUrl(value: string): boolean {
+	try {
+		return PRIVATE_HOST.test(new URL(value).hostname);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the scan kind of a file from its name
+ */
+export function getScanKind(path: string): SecretScanKind {
+	const name = basename(path).replace(/\.tmpl$/, "");
+	if (/\.jsonc?$/.test(name)) {
+		return "json";
+	}
+	if (
+		/(^|\.)(bashrc|zshrc|profile|bash_profile)$|\.(sh|bash|zsh)$/.test(name)
+	) {
+		return "shell";
+	}
+	return "text";
+}
+
+function matchesKeyPattern(value: string): boolean {
+	return KEY_PATTERNS.some(({ pattern }) =>
+		new RegExp(pattern.source).test(value),
+	);
+}
+
+/**
+ * Scan text for credentials. `prefix` names the placeholders, e.g. "opencode".
+ * Named values (JSON properties, shell exports) are checked first so their
+ * placeholders get meaningful names.
+ */
+export function scanText(
+	text: string,
+	kind: SecretScanKind,
+	prefix: string,
+): SecretFinding[] {
+	const findings: SecretFinding[] = [];
+
+	const add = (rule: SecretRule, start: number, end: number, name: string) => {
+		const value = text.slice(start, end);
+		if (
+			value.includes("{{secret:") ||
+			findings.some((f) => start < f.end && f.start < end)
+		) {
+			return;
+		}
+		const { line, column } = getLineAndColumn(text, start);
+		findings.push({
+			rule,
+			start,
+			end,
+			line,
+			column,
+			value,
+			name: `${prefix}.${name}`,
+			fingerprint: hashContent(value).slice(0, 16),
+		});
+	};
+
+	const lineName = (offset: number) =>
+		`line${getLineAndColumn(text, offset).line}`;
+
+	if (kind === "json") {
+		const walk = (node: JsoncNode, path: string[]) => {
+			if (node.type === "object") {
+				for (const property of node.properties) {
+					const { value } = property;
+					const keyPath = [...path, property.key];
+					if (value.type === "string" && typeof value.value === "string") {
+						// Offsets of the string without its quotes
+						const start = value.start + 1;
+						const end = value.end - 1;
+						const name = keyPath.join(".");
+						if (SECRET_NAME.test(property.key) && value.value !== "") {
+							add("secret-property", start, end, name);
+						} else if (
+							URL_NAME.test(property.key) &&
+							isPrivateUrl(value.value)
+						) {
+							add("private-url", start, end, name);
+						} else if (matchesKeyPattern(value.value)) {
+							add("api-key", start, end, name);
+						} else if (looksRandom(value.value)) {
+							add("high-entropy", start, end, name);
+						}
+					} else {
+						walk(value, keyPath);
+					}
+				}
+			} else if (node.type === "array") {
+				node.items.forEach((item, index) => {
+					walk(item, [...path, String(index)]);
+				});
+			}
+		};
+		walk(parseJsoncDocument(text).root, []);
+	}
+
+	if (kind === "shell") {
+		for (const match of text.matchAll(SECRET_EXPORT)) {
+			const [whole, variable, quote, value] = match;
+			if (!SECRET_NAME.test(variable)) {
+				continue;
+			}
+			const start = match.index + whole.length - value.length - quote.length;
+			add("secret-export", start, start + value.length, variable);
+		}
+	}
+
+	for (const { rule, pattern } of KEY_PATTERNS) {
+		for (const match of text.matchAll(pattern)) {
+			add(
+				rule,
+				match.index,
+				match.index + match[0].length,
+				lineName(match.index),
+			);
+		}
+	}
+
+	// JSON strings were already checked for entropy as a whole
+	if (kind !== "json") {
+		for (const match of text.matchAll(ENTROPY_TOKEN)) {
+			if (looksRandom(match[0])) {
+				add(
+					"high-entropy",
+					match.index,
+					match.index + match[0].length,
+					lineName(match.index),
+				);
+			}
+		}
+	}
+
+	return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace each finding's value with a placeholder
+ */
+export function redactSecrets(text: string, findings: SecretFinding[]): string {
+	let result = text;
+	// Replace from the end so earlier offsets stay valid
+	for (const finding of [...findings].sort((a, b) => b.start - a.start)) {
+		result =
+			result.slice(0, finding.start) +
+			formatSecretPlaceholder(finding.name) +
+			result.slice(finding.end);
+	}
+	return result;
+}
+
+/**
+ * Show a secret without revealing it, e.g. "sk-a…(51 chars)"
+ */
+export function maskSecret(value: string): string {
+	return `${value.slice(0, 4)}…(${value.length} chars)`;
+}
+
+export function getAllowlistPath(): string {
+	return join(repoRoot, ".secrets-allowlist");
+}
+
+/**
+ * Allowed findings, one per line: a fingerprint, or `<repo path>:<rule>` to
+ * allow a rule for a whole file. `#` starts a comment.
+ */
+export function loadAllowlist(): Set<string> {
+	const path = getAllowlistPath();
+	if (!existsSync(path)) {
+		return new Set();
+	}
+	return new Set(
+		readFileSync(path, "utf-8")
+			.split("\n")
+			.map((line) => line.replace(/#.*/, "").trim())
+			.filter((line) => line !== ""),
+	);
+}
+
+export interface FileSecrets {
+	/** System path as written in dotfiles.json, e.g. ~/.bashrc */
+	path: string;
+	findings: SecretFinding[];
+}
+
+/**
+ * Placeholder name prefix for a file of a module: the module name, followed by
+ * the path inside the directory for directory modules
+ */
+function getSecretPrefix(
+	module: ModuleDefinition,
+	relativePath: string,
+): string {
+	return relativePath
+		? `${module.name}.${relativePath.replaceAll("/", ".")}`
+		: module.name;
+}
+
+/**
+ * Text of a module's system file with every secret found in it replaced by
+ * its placeholder, allowlisted or not, for output that must not show values
+ */
+export function hideSystemSecrets(
+	module: ModuleDefinition,
+	systemFile: string,
+	text: string,
+): string {
+	const relativePath =
+		module.type === "directory"
+			? relative(getSystemPath(module), systemFile)
+			: "";
+	return redactSecrets(
+		text,
+		scanText(
+			text,
+			getScanKind(systemFile),
+			getSecretPrefix(module, relativePath),
+		),
+	);
+}
+
+/**
+ * Scan the system copies of a module's files, leaving out findings that are
+ * allowlisted by fingerprint or by `<module>:<rule>`
+ */
+export function scanModuleSecrets(
+	module: ModuleDefinition,
+	allowlist: Set<string> = loadAllowlist(),
+): FileSecrets[] {
+	const systemPath = getSystemPath(module);
+	// Findings in a block are reported at their line in the whole file
+	const lineOffset = getBlockLineOffset(module);
+	const results: FileSecrets[] = [];
+
+	for (const { systemFile } of getModuleFilePairs(module)) {
+		if (!fileExists(systemFile)) {
+			continue;
+		}
+		const relativePath =
+			module.type === "directory" ? relative(systemPath, systemFile) : "";
+		const findings = scanText(
+			readTextFile(systemFile),
+			getScanKind(systemFile),
+			getSecretPrefix(module, relativePath),
+		)
+			.filter(
+				(finding) =>
+					!allowlist.has(finding.fingerprint) &&
+					!allowlist.has(`${module.name}:${finding.rule}`),
+			)
+			.map((finding) => ({ ...finding, line: finding.line + lineOffset }));
+		if (findings.length > 0) {
+			results.push({
+				path: relativePath
+					? join(module.systemPath, relativePath)
+					: module.systemPath,
+				findings,
+			});
+		}
+	}
+	return results;
+}
+
+/**
+ * Replace the secrets found on the system with placeholders wherever they
+ * ended up in the repo. Returns the repo relative paths of redacted files.
+ */
+export function redactModuleSecrets(
+	module: ModuleDefinition,
+	secrets: FileSecrets[],
+): string[] {
+	const fingerprints = new Set(
+		secrets.flatMap(({ findings }) => findings.map((f) => f.fingerprint)),
+	);
+	const sourceDir = getSourcePath(module);
+	const redacted: string[] = [];
+
+	for (const file of getModuleRepoFiles(module)) {
+		if (!existsSync(file)) {
+			continue;
+		}
+		const text = readFileSync(file, "utf-8");
+		// Files of directory modules are named after their path in the layer
+		const layerDir = [sourceDir, ...getOverlayPaths(module)].find((dir) =>
+			file.startsWith(`${dir}/`),
+		);
+		const findings = scanText(
+			text,
+			getScanKind(file),
+			getSecretPrefix(module, layerDir ? relative(layerDir, file) : ""),
+		).filter((finding) => fingerprints.has(finding.fingerprint));
+		if (findings.length > 0) {
+			writeFileSync(file, redactSecrets(text, findings));
+			redacted.push(relative(repoRoot, file));
+		}
+	}
+	return redacted;
+}
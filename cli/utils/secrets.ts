@@ -0,0 +1,385 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	scryptSync,
+} from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileExists, readTextFile } from "./fs-helper.ts";
+import { getModuleFilePairs, getModuleRepoFiles } from "./install-state.ts";
+import { type ModuleDefinition, repoRoot } from "./manifest.ts";
+import {
+	type FileSecrets,
+	formatSecretPlaceholder,
+	getScanKind,
+} from "./secret-scanner.ts";
+
+interface EncryptedValue {
+	/** Base64 AES-256-GCM nonce, auth tag and ciphertext */
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+interface SecretStore {
+	version: 1;
+	kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+	/** A known value encrypted with the key, to reject wrong passphrases */
+	check: EncryptedValue;
+	secrets: Record<string, EncryptedValue>;
+}
+
+const PLACEHOLDER = /\{\{secret:([\w.-]+)\}\}/g;
+const SECRET_NAME = /^[\w.-]+$/;
+const CHECK_VALUE = "dotfiles";
+
+/**
+ * Encrypted secrets file at the repo root, committed with the configs
+ */
+export function getSecretsPath(): string {
+	return join(repoRoot, "secrets.json");
+}
+
+/**
+ * Whether the secrets can be unlocked, without checking the passphrase
+ */
+export function hasPassphrase(): boolean {
+	return Boolean(process.env.DOTFILES_PASSPHRASE);
+}
+
+function getPassphrase(): string {
+	const passphrase = process.env.DOTFILES_PASSPHRASE;
+	if (!passphrase) {
+		throw new Error("Set DOTFILES_PASSPHRASE to unlock the secrets");
+	}
+	return passphrase;
+}
+
+function deriveKey(store: SecretStore, passphrase: string): Buffer {
+	const { salt, N, r, p } = store.kdf;
+	return scryptSync(passphrase, Buffer.from(salt, "base64"), 32, {
+		N,
+		r,
+		p,
+		maxmem: 128 * N * r * 2,
+	});
+}
+
+/**
+ * Encrypt a value. The name is authenticated too, so values cannot be swapped
+ * between names in the file.
+ */
+function encrypt(key: Buffer, name: string, value: string): EncryptedValue {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv("aes-256-gcm", key, iv);
+	cipher.setAAD(Buffer.from(name));
+	const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+	return {
+		iv: iv.toString("base64"),
+		tag: cipher.getAuthTag().toString("base64"),
+		data: data.toString("base64"),
+	};
+}
+
+function decrypt(key: Buffer, name: string, value: EncryptedValue): string {
+	const decipher = createDecipheriv(
+		"aes-256-gcm",
+		key,
+		Buffer.from(value.iv, "base64"),
+	);
+	decipher.setAAD(Buffer.from(name));
+	decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+	try {
+		return Buffer.concat([
+			decipher.update(Buffer.from(value.data, "base64")),
+			decipher.final(),
+		]).toString("utf-8");
+	} catch {
+		throw new Error(`Cannot decrypt secret '${name}' (wrong passphrase?)`);
+	}
+}
+
+function loadSecretStore(): SecretStore | undefined {
+	const path = getSecretsPath();
+	if (!existsSync(path)) {
+		return undefined;
+	}
+	const store = JSON.parse(readFileSync(path, "utf-8"));
+	if (store.version !== 1 || store.kdf?.name !== "scrypt") {
+		throw new Error(`${path}: unsupported secrets file`);
+	}
+	return store;
+}
+
+/**
+ * Derive the key of the store and check it against the passphrase
+ */
+function unlockSecretStore(store: SecretStore): Buffer {
+	const key = deriveKey(store, getPassphrase());
+	try {
+		decrypt(key, "", store.check);
+	} catch {
+		throw new Error("Wrong passphrase for the secrets file");
+	}
+	return key;
+}
+
+/**
+ * Names of the stored secrets, which can be listed without the passphrase
+ */
+export function listSecretNames(): string[] {
+	return Object.keys(loadSecretStore()?.secrets ?? {}).sort();
+}
+
+/**
+ * Decrypt a stored secret
+ */
+export function getSecret(name: string): string {
+	const store = loadSecretStore();
+	const value = store?.secrets[name];
+	if (!store || !value) {
+		throw new Error(`Unknown secret: ${name}`);
+	}
+	return decrypt(unlockSecretStore(store), name, value);
+}
+
+/**
+ * Encrypt and store a secret, creating the secrets file on first use
+ */
+export function setSecret(name: string, value: string): void {
+	if (!SECRET_NAME.test(name)) {
+		throw new Error(
+			`Invalid secret name '${name}' (use letters, digits, '.', '_' and '-')`,
+		);
+	}
+
+	let store = loadSecretStore();
+	let key: Buffer;
+	if (store) {
+		key = unlockSecretStore(store);
+	} else {
+		const kdf = {
+			name: "scrypt" as const,
+			salt: randomBytes(16).toString("base64"),
+			N: 2 ** 15,
+			r: 8,
+			p: 1,
+		};
+		const empty = { iv: "", tag: "", data: "" };
+		store = { version: 1, kdf, check: empty, secrets: {} };
+		key = deriveKey(store, getPassphrase());
+		store.check = encrypt(key, "", CHECK_VALUE);
+	}
+
+	store.secrets[name] = encrypt(key, name, value);
+	writeFileSync(getSecretsPath(), `${JSON.stringify(store, null, "\t")}\n`);
+}
+
+/**
+ * Names of the secrets referenced by `{{secret:name}}` placeholders in a text
+ */
+export function findSecretReferences(text: string): string[] {
+	return [...new Set([...text.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+// Decrypted values, so the key is only derived once per run
+let cachedValues: Map<string, string> | undefined;
+
+function loadSecretValues(): Map<string, string> {
+	if (cachedValues) {
+		return cachedValues;
+	}
+	const store = loadSecretStore();
+	const values = new Map<string, string>();
+	if (store && Object.keys(store.secrets).length > 0) {
+		const key = unlockSecretStore(store);
+		for (const [name, value] of Object.entries(store.secrets)) {
+			values.set(name, decrypt(key, name, value));
+		}
+	}
+	cachedValues = values;
+	return values;
+}
+
+/**
+ * A secret as written in a file: escaped inside JSON strings, raw elsewhere
+ */
+function encodeSecret(value: string, file: string): string {
+	return getScanKind(file) === "json"
+		? JSON.stringify(value).slice(1, -1)
+		: value;
+}
+
+/**
+ * The value a secret written in `file` stands for, unescaping JSON strings
+ */
+function decodeSecret(value: string, file: string): string {
+	return getScanKind(file) === "json" ? JSON.parse(`"${value}"`) : value;
+}
+
+/**
+ * Replace the placeholders in the text of `file` with the decrypted values
+ */
+export function resolveSecretPlaceholders(text: string, file: string): string {
+	if (findSecretReferences(text).length === 0) {
+		return text;
+	}
+	const values = loadSecretValues();
+	return text.replace(PLACEHOLDER, (_, name: string) => {
+		const value = values.get(name);
+		if (value === undefined) {
+			throw new Error(
+				`Unknown secret '${name}' (add it with \`dotfiles secret set ${name}\`)`,
+			);
+		}
+		return encodeSecret(value, file);
+	});
+}
+
+/**
+ * Names of the secrets a module's repo files refer to
+ */
+export function getModuleSecretReferences(module: ModuleDefinition): string[] {
+	return [
+		...new Set(
+			getModuleRepoFiles(module)
+				.filter((file) => existsSync(file))
+				.flatMap((file) => findSecretReferences(readFileSync(file, "utf-8"))),
+		),
+	];
+}
+
+/**
+ * Check that every placeholder of a module can be resolved, before writing
+ * anything
+ */
+export function checkModuleSecrets(module: ModuleDefinition): void {
+	for (const { repoFile } of getModuleFilePairs(module)) {
+		if (fileExists(repoFile)) {
+			resolveSecretPlaceholders(readTextFile(repoFile), repoFile);
+		}
+	}
+}
+
+/**
+ * Replace placeholders in the installed files of a module with the secrets
+ */
+export function resolveModuleSecrets(module: ModuleDefinition): void {
+	for (const { systemFile } of getModuleFilePairs(module)) {
+		if (!fileExists(systemFile)) {
+			continue;
+		}
+		const text = readTextFile(systemFile);
+		const resolved = resolveSecretPlaceholders(text, systemFile);
+		if (resolved !== text) {
+			writeFileSync(systemFile, resolved);
+		}
+	}
+}
+
+/**
+ * Decrypted values of the given secrets
+ */
+export function getSecretValues(names: string[]): Map<string, string> {
+	const values = new Map<string, string>();
+	if (names.length === 0) {
+		return values;
+	}
+	const stored = loadSecretValues();
+	for (const name of names) {
+		const value = stored.get(name);
+		if (value !== undefined && value !== "") {
+			values.set(name, value);
+		}
+	}
+	return values;
+}
+
+/**
+ * Values of the secrets a module's repo files refer to. Without the
+ * passphrase, or with a wrong one, there are none.
+ */
+export function getModuleSecretValues(
+	module: ModuleDefinition,
+): Map<string, string> {
+	if (!hasPassphrase()) {
+		return new Map();
+	}
+	try {
+		return getSecretValues(getModuleSecretReferences(module));
+	} catch {
+		return new Map();
+	}
+}
+
+/**
+ * Turn decrypted values in the text of `file` back into their placeholders
+ */
+export function restoreSecretPlaceholders(
+	text: string,
+	file: string,
+	values: Map<string, string>,
+): string {
+	const names = new Map<string, string>();
+	for (const [name, value] of values) {
+		if (value !== "") {
+			names.set(encodeSecret(value, file), name);
+		}
+	}
+	if (names.size === 0) {
+		return text;
+	}
+	// One pass, so a value is never found inside a placeholder written for
+	// another, and the longest values first, in case one contains another
+	const pattern = new RegExp(
+		[...names.keys()]
+			.sort((a, b) => b.length - a.length)
+			.map((value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+			.join("|"),
+		"g",
+	);
+	return text.replace(pattern, (value) =>
+		formatSecretPlaceholder(names.get(value) ?? value),
+	);
+}
+
+/**
+ * Turn decrypted values synced into a module's repo files back into their
+ * placeholders. Returns whether any file changed.
+ */
+export function restoreModulePlaceholders(
+	module: ModuleDefinition,
+	values: Map<string, string>,
+): boolean {
+	let changed = false;
+
+	for (const file of getModuleRepoFiles(module)) {
+		if (!existsSync(file)) {
+			continue;
+		}
+		const text = readFileSync(file, "utf-8");
+		const restored = restoreSecretPlaceholders(text, file, values);
+		if (restored !== text) {
+			writeFileSync(file, restored);
+			changed = true;
+		}
+	}
+	return changed;
+}
+
+/**
+ * Store the values of secrets found on the system under the names of the
+ * placeholders `sync --redact` replaces them with, so `install` can put them
+ * back. Returns the stored names.
+ */
+export function storeFoundSecrets(secrets: FileSecrets[]): string[] {
+	const names: string[] = [];
+	for (const { path, findings } of secrets) {
+		for (const finding of findings) {
+			setSecret(finding.name, decodeSecret(finding.value, path));
+			names.push(finding.name);
+		}
+	}
+	return [...new Set(names)];
+}
@@ -1,60 +1,193 @@
-import { homedir } from "node:os";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
-import { compareDirectories, compareFiles } from "./diff.ts";
-import { displayDiff } from "./diff-renderer.ts";
+import { writeFileSync } from "node:fs";
+import { relative } from "node:path";
+import type { Command } from "commander";
+import { compareFiles, type FileDiff, hasDifferences } from "./diff.ts";
+import {
+	renderDiff,
+	renderSideBySideDiff,
+	renderUnifiedDiff,
+} from "./diff-renderer.ts";
+import { readTextFile } from "./fs-helper.ts";
+import { classifyFile, getModuleFilePairs } from "./install-state.ts";
+import { getBlockLineOffset, getModuleForeignLines } from "./managed-block.ts";
+import {
+	getModules,
+	getSourcePath,
+	getSystemPath,
+	getTemplatePath,
+	type ModuleDefinition,
+	repoRoot,
+} from "./manifest.ts";
+import { hideSystemSecrets } from "./secret-scanner.ts";
+import { getModuleSecretValues, restoreSecretPlaceholders } from "./secrets.ts";
+import { printLine, printPaged } from "./terminal.ts";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+export type DiffFormat = "text" | "unified" | "side-by-side";
+
+export interface DiffOptions {
+	format: DiffFormat;
+	/** Unchanged lines shown around each change */
+	context: number;
+	/** Page output taller than the terminal */
+	pager: boolean;
+	/** File to write the differences to, as a unified diff */
+	patchFile?: string;
+}
+
+const defaultDiffOptions: DiffOptions = {
+	format: "text",
+	context: 3,
+	pager: true,
+};
+
+/**
+ * Repo relative path of the file a diff's repo side comes from: the template
+ * or source of a file module, or the layer a directory file is taken from
+ */
+function getDiffSourcePath(module: ModuleDefinition, diff: FileDiff): string {
+	const source =
+		module.type === "file"
+			? (getTemplatePath(module) ?? getSourcePath(module))
+			: diff.repoPath;
+	return relative(repoRoot, source);
+}
 
 /**
- * Show diffs for all configuration files
+ * Compare a module's repo copy against the installed copy, classifying
+ * each file against the install state
  */
-export function showConfigDiffs(): void {
-	const allDiffs = [];
-
-	// Compare bashrc
-	const bashrcDiff = compareFiles(
-		join(__dirname, "../../configs/bashrc"),
-		join(homedir(), ".bashrc"),
-	);
-	if (bashrcDiff) {
-		allDiffs.push(bashrcDiff);
+export function getModuleDiffs(module: ModuleDefinition): FileDiff[] {
+	// Secrets are compared as the placeholders the repo holds, so no renderer
+	// or patch file ever shows their values
+	const values = getModuleSecretValues(module);
+	const readInstalled = (path: string) =>
+		hideSystemSecrets(
+			module,
+			path,
+			restoreSecretPlaceholders(readTextFile(path), path, values),
+		);
+
+	const diffs = getModuleFilePairs(module)
+		.map(({ repoFile, systemFile }) =>
+			compareFiles(repoFile, systemFile, readInstalled),
+		)
+		.filter((diff): diff is FileDiff => diff !== null);
+
+	if (module.merge === "block") {
+		// Only the block is compared, shown under the path of the whole file
+		const foreignLines = getModuleForeignLines(module);
+		const lineOffset = getBlockLineOffset(module);
+		return diffs.map((diff) => ({
+			...diff,
+			installedPath: getSystemPath(module),
+			sourcePath: getDiffSourcePath(module, diff),
+			state: classifyFile(diff.repoPath, diff.installedPath),
+			foreignLines,
+			lineOffset,
+		}));
 	}
 
-	// Compare helix config
-	const helixDiffs = compareDirectories(
-		join(__dirname, "../../configs/helix"),
-		join(homedir(), ".config", "helix"),
-	);
-	allDiffs.push(...helixDiffs);
-
-	// Compare tmux config
-	const tmuxDiff = compareFiles(
-		join(__dirname, "../../configs/tmux/tmux.conf"),
-		join(homedir(), ".config", "tmux", "tmux.conf"),
-	);
-	if (tmuxDiff) {
-		allDiffs.push(tmuxDiff);
+	return diffs.map((diff) => ({
+		...diff,
+		sourcePath: getDiffSourcePath(module, diff),
+		state: classifyFile(diff.repoPath, diff.installedPath),
+	}));
+}
+
+/**
+ * Write the differences of the modules to a file as a unified diff, returning
+ * the number of files that differ
+ */
+export function writePatchFile(
+	modules: ModuleDefinition[],
+	file: string,
+	context: number,
+): number {
+	const diffs = modules.flatMap((module) => getModuleDiffs(module));
+	writeFileSync(file, renderUnifiedDiff(diffs, context));
+	return diffs.filter(hasDifferences).length;
+}
+
+/**
+ * Show diffs for all configuration files (or only the given modules), or
+ * write them to a patch file
+ */
+export function showConfigDiffs(
+	modules: ModuleDefinition[] = getModules(),
+	{ format, context, patchFile, pager }: DiffOptions = defaultDiffOptions,
+): void {
+	if (patchFile) {
+		const count = writePatchFile(modules, patchFile, context);
+		printLine(`\x1b[32m✓ Wrote ${count} file diff(s) to ${patchFile}\x1b[0m`);
+		return;
 	}
 
-	// Compare zed config
-	const zedDiff = compareFiles(
-		join(__dirname, "../../configs/zed/settings.json"),
-		join(homedir(), ".config", "zed", "settings.json"),
-	);
-	if (zedDiff) {
-		allDiffs.push(zedDiff);
+	const allDiffs: FileDiff[] = [];
+
+	for (const module of modules) {
+		allDiffs.push(...getModuleDiffs(module));
 	}
 
-	// Compare opencode config
-	const opencodeDiff = compareFiles(
-		join(__dirname, "../../configs/opencode/opencode.jsonc"),
-		join(homedir(), ".config", "opencode", "opencode.jsonc"),
-	);
-	if (opencodeDiff) {
-		allDiffs.push(opencodeDiff);
+	if (format === "unified") {
+		printPaged(renderUnifiedDiff(allDiffs, context), pager);
+	} else if (format === "side-by-side") {
+		printPaged(renderSideBySideDiff(allDiffs, context), pager);
+	} else {
+		printPaged(renderDiff(allDiffs, context), pager);
+	}
+}
+
+/**
+ * Add the options of the diff display
+ */
+export function addDiffOptions(command: Command): Command {
+	return command
+		.option(
+			"--format <format>",
+			"Format of the differences: text (default), unified or side-by-side",
+		)
+		.option(
+			"--side-by-side",
+			"Show the differences in two columns sized to the terminal (same as --format side-by-side)",
+		)
+		.option(
+			"--context <lines>",
+			"Unchanged lines shown around each change (default: 3)",
+		)
+		.option("--no-pager", "Do not page long differences through $PAGER")
+		.option(
+			"--patch-file <file>",
+			"Write the differences to a file as a unified diff, e.g. drift.patch",
+		);
+}
+
+/**
+ * Read the diff options of a command and its parent, exiting on invalid values
+ */
+export function getDiffOptions(cmd: Command): DiffOptions {
+	const options = cmd.opts();
+	const parentOptions = cmd.parent?.opts() || {};
+	const format =
+		options.sideBySide || parentOptions.sideBySide
+			? "side-by-side"
+			: options.format || parentOptions.format || "text";
+	const context = options.context ?? parentOptions.context ?? "3";
+
+	let error: string | undefined;
+	if (!["text", "unified", "side-by-side"].includes(format)) {
+		error = `Unknown diff format '${format}' (use text, unified or side-by-side)`;
+	} else if (!/^\d+$/.test(context)) {
+		error = `--context must be a number of lines, got '${context}'`;
+	}
+	if (error) {
+		printLine(`\x1b[31m✗ ${error}\x1b[0m`);
+		process.exit(1);
 	}
 
-	displayDiff(allDiffs);
+	return {
+		format,
+		context: Number(context),
+		patchFile: options.patchFile || parentOptions.patchFile,
+		pager: options.pager !== false && parentOptions.pager !== false,
+	};
 }
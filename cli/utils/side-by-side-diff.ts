@@ -0,0 +1,289 @@
+import { diffWordsWithSpace } from "diff";
+import { type FileDiff, hasDifferences, splitChangeLines } from "./diff.ts";
+import { describeState, renderForeignLines } from "./diff-display.ts";
+
+const SEPARATOR = " │ ";
+
+/**
+ * Marker between the columns, as `diff -y` writes it, so changed rows stand
+ * out without color: `|` changed, `<` only in the repo, `>` only installed
+ */
+function getSeparator(left: Cell, right: Cell): string {
+	if (left.kind === "removed") {
+		return right.kind === "added" ? " | " : " < ";
+	}
+	return right.kind === "added" ? " > " : SEPARATOR;
+}
+
+interface Segment {
+	text: string;
+	/** Part of a line that changed, within a changed line */
+	highlight: boolean;
+}
+
+interface Cell {
+	kind: "context" | "removed" | "added" | "empty";
+	number?: number;
+	segments: Segment[];
+}
+
+type Row = { left: Cell; right: Cell } | { skipped: number };
+
+const EMPTY: Cell = { kind: "empty", segments: [] };
+
+const COLORS: Record<Cell["kind"], string> = {
+	context: "\x1b[2m",
+	removed: "\x1b[31m",
+	added: "\x1b[32m",
+	empty: "",
+};
+
+function getLines(value: string): string[] {
+	return splitChangeLines(value).map((line) => line.replaceAll("\t", "    "));
+}
+
+/**
+ * Highlight the words that differ between a removed and an added line
+ */
+function pairCells(
+	removed: string,
+	added: string,
+	leftNumber: number,
+	rightNumber: number,
+): { left: Cell; right: Cell } {
+	const left: Segment[] = [];
+	const right: Segment[] = [];
+	for (const part of diffWordsWithSpace(removed, added)) {
+		if (!part.added) {
+			left.push({ text: part.value, highlight: part.removed });
+		}
+		if (!part.removed) {
+			right.push({ text: part.value, highlight: part.added });
+		}
+	}
+	return {
+		left: { kind: "removed", number: leftNumber, segments: left },
+		right: { kind: "added", number: rightNumber, segments: right },
+	};
+}
+
+/**
+ * Lay out a file's changes as rows, the repo copy on the left and the
+ * installed copy on the right
+ */
+function getRows(diff: FileDiff, context: number): Row[] {
+	const rows: Row[] = [];
+	const { changes } = diff;
+	let left = 1;
+	let right = 1 + (diff.lineOffset ?? 0);
+
+	const unchanged = (text: string) => {
+		rows.push({
+			left: {
+				kind: "context",
+				number: left++,
+				segments: [{ text, highlight: false }],
+			},
+			right: {
+				kind: "context",
+				number: right++,
+				segments: [{ text, highlight: false }],
+			},
+		});
+	};
+
+	for (let i = 0; i < changes.length; i++) {
+		const change = changes[i];
+		const lines = getLines(change.value);
+
+		if (!change.added && !change.removed) {
+			const head = i === 0 ? 0 : context;
+			const tail = i === changes.length - 1 ? 0 : context;
+			if (lines.length <= head + tail) {
+				lines.forEach(unchanged);
+				continue;
+			}
+			lines.slice(0, head).forEach(unchanged);
+			const skipped = lines.length - head - tail;
+			rows.push({ skipped });
+			left += skipped;
+			right += skipped;
+			lines.slice(lines.length - tail).forEach(unchanged);
+			continue;
+		}
+
+		// A removal followed by an addition is shown line against line
+		const removed = change.removed ? lines : [];
+		const next = changes[i + 1];
+		const added = change.added
+			? lines
+			: next?.added
+				? getLines(next.value)
+				: [];
+		if (change.removed && next?.added) {
+			i++;
+		}
+
+		for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+			if (k < removed.length && k < added.length) {
+				rows.push(pairCells(removed[k], added[k], left++, right++));
+			} else if (k < removed.length) {
+				rows.push({
+					left: {
+						kind: "removed",
+						number: left++,
+						segments: [{ text: removed[k], highlight: false }],
+					},
+					right: EMPTY,
+				});
+			} else {
+				rows.push({
+					left: EMPTY,
+					right: {
+						kind: "added",
+						number: right++,
+						segments: [{ text: added[k], highlight: false }],
+					},
+				});
+			}
+		}
+	}
+
+	return rows;
+}
+
+/**
+ * Split a cell into lines of at most `width` characters
+ */
+function wrapSegments(segments: Segment[], width: number): Segment[][] {
+	const lines: Segment[][] = [[]];
+	let used = 0;
+	for (const segment of segments) {
+		let text = segment.text;
+		while (text.length > 0) {
+			if (used === width) {
+				lines.push([]);
+				used = 0;
+			}
+			const part = text.slice(0, width - used);
+			lines[lines.length - 1].push({
+				text: part,
+				highlight: segment.highlight,
+			});
+			used += part.length;
+			text = text.slice(part.length);
+		}
+	}
+	return lines;
+}
+
+function renderCellLine(
+	cell: Cell,
+	segments: Segment[] | undefined,
+	number: number | undefined,
+	numberWidth: number,
+	width: number,
+): string {
+	const gutter = `${number === undefined ? "" : number}`.padStart(numberWidth);
+	const length = (segments ?? []).reduce((sum, s) => sum + s.text.length, 0);
+	const text = (segments ?? [])
+		.map((s) => (s.highlight ? `\x1b[7m${s.text}\x1b[27m` : s.text))
+		.join("");
+	const color = COLORS[cell.kind];
+	return `\x1b[2m${gutter}\x1b[0m ${color}${text}${color ? "\x1b[0m" : ""}${" ".repeat(width - length)}`;
+}
+
+function renderFileSideBySide(
+	out: string[],
+	diff: FileDiff,
+	context: number,
+	columns: number,
+): void {
+	if (diff.onlyInRepo || diff.onlyInSystem) {
+		const [color, sign, where] = diff.onlyInRepo
+			? ["\x1b[32m", "+", "only in repo"]
+			: ["\x1b[31m", "-", "only in system"];
+		out.push(
+			`${color}${sign} ${diff.installedPath}\x1b[0m (${where})${describeState(diff)}`,
+		);
+		out.push("");
+		return;
+	}
+
+	out.push(`\x1b[1m\x1b[4m${diff.installedPath}\x1b[0m${describeState(diff)}`);
+
+	const rows = getRows(diff, context);
+	const numberWidth = String(
+		rows.reduce(
+			(max, row) =>
+				"skipped" in row
+					? max
+					: Math.max(max, row.left.number ?? 0, row.right.number ?? 0),
+			0,
+		),
+	).length;
+	const width = Math.max(
+		10,
+		Math.floor((columns - SEPARATOR.length - 2 * (numberWidth + 1)) / 2),
+	);
+
+	const gutter = " ".repeat(numberWidth + 1);
+	out.push(
+		`\x1b[2m${gutter}${"repo".padEnd(width)}${SEPARATOR}${gutter}system\x1b[0m`,
+	);
+
+	for (const row of rows) {
+		if ("skipped" in row) {
+			out.push(`\x1b[2m  ... (${row.skipped} unchanged lines)\x1b[0m`);
+			continue;
+		}
+		const left = wrapSegments(row.left.segments, width);
+		const right = wrapSegments(row.right.segments, width);
+		for (let k = 0; k < Math.max(left.length, right.length); k++) {
+			out.push(
+				renderCellLine(
+					row.left,
+					left[k],
+					k === 0 ? row.left.number : undefined,
+					numberWidth,
+					width,
+				) +
+					getSeparator(row.left, row.right) +
+					renderCellLine(
+						row.right,
+						right[k],
+						k === 0 ? row.right.number : undefined,
+						numberWidth,
+						width,
+					).trimEnd(),
+			);
+		}
+	}
+
+	out.push("");
+}
+
+/**
+ * Render diff results in two columns sized to the terminal, the repo copy
+ * on the left and the installed copy on the right
+ */
+export function renderSideBySideDiff(
+	diffs: FileDiff[],
+	context = 3,
+	columns = process.stdout.columns || 120,
+): string {
+	const out: string[] = [];
+	const diffsWithChanges = diffs.filter(hasDifferences);
+
+	if (diffsWithChanges.length === 0) {
+		out.push("\x1b[32m✓ No differences found\x1b[0m");
+	} else {
+		out.push(`\nFound ${diffsWithChanges.length} file(s) with differences:\n`);
+		for (const diff of diffsWithChanges) {
+			renderFileSideBySide(out, diff, context, columns);
+		}
+	}
+
+	renderForeignLines(out, diffs);
+	return `${out.join("\n")}\n`;
+}
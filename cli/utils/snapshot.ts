@@ -0,0 +1,236 @@
+import {
+	cpSync,
+	existsSync,
+	lstatSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmdirSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { createTimestampId, ensureParentDir } from "./fs-helper.ts";
+import {
+	type FileRecord,
+	getModuleRecords,
+	replaceModuleRecords,
+} from "./install-state.ts";
+import { readLinkTarget } from "./link.ts";
+import {
+	getStateDir,
+	getSystemPath,
+	type ModuleDefinition,
+} from "./manifest.ts";
+
+export type SnapshotEntryKind = "missing" | "file" | "directory" | "symlink";
+
+export interface SnapshotEntry {
+	module: string;
+	systemPath: string;
+	/** What was at systemPath before the install */
+	kind: SnapshotEntryKind;
+	linkTarget?: string;
+	/** Parent directories the install is about to create, deepest first */
+	createdDirs: string[];
+	/** Install state records of the module before the install */
+	stateRecords?: Record<string, FileRecord>;
+	/** Files the install wrote next to systemPath, e.g. `<file>.conflict` */
+	createdFiles?: string[];
+}
+
+export interface Snapshot {
+	id: string;
+	createdAt: string;
+	entries: SnapshotEntry[];
+}
+
+/**
+ * A snapshot that is only written to disk once the first entry is recorded,
+ * so installs that end up changing nothing leave no empty snapshot behind.
+ */
+export interface PendingSnapshot {
+	snapshot?: Snapshot;
+}
+
+const SNAPSHOT_FILE = "snapshot.json";
+
+export function getSnapshotsDir(): string {
+	return join(getStateDir(), "snapshots");
+}
+
+function getStoredPath(id: string, module: string): string {
+	return join(getSnapshotsDir(), id, "files", module);
+}
+
+function writeSnapshot(snapshot: Snapshot): void {
+	const file = join(getSnapshotsDir(), snapshot.id, SNAPSHOT_FILE);
+	ensureParentDir(file);
+	writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
+
+function getMissingParents(path: string): string[] {
+	const missing: string[] = [];
+	let dir = dirname(path);
+	while (!existsSync(dir) && dirname(dir) !== dir) {
+		missing.push(dir);
+		dir = dirname(dir);
+	}
+	return missing;
+}
+
+export function startSnapshot(): PendingSnapshot {
+	return {};
+}
+
+/**
+ * Record the current state of a module's system path before it is overwritten.
+ * Recording the same module twice keeps the first (original) state.
+ */
+export function recordSnapshot(
+	pending: PendingSnapshot,
+	module: ModuleDefinition,
+): void {
+	if (!pending.snapshot) {
+		mkdirSync(getSnapshotsDir(), { recursive: true });
+		pending.snapshot = {
+			id: createTimestampId(getSnapshotsDir()),
+			createdAt: new Date().toISOString(),
+			entries: [],
+		};
+	}
+
+	const snapshot = pending.snapshot;
+	if (snapshot.entries.some((entry) => entry.module === module.name)) {
+		return;
+	}
+
+	const systemPath = getSystemPath(module);
+	const entry: SnapshotEntry = {
+		module: module.name,
+		systemPath,
+		kind: "missing",
+		createdDirs: getMissingParents(systemPath),
+		stateRecords: getModuleRecords(module),
+	};
+
+	const stat = lstatSync(systemPath, { throwIfNoEntry: false });
+	if (stat?.isSymbolicLink()) {
+		entry.kind = "symlink";
+		entry.linkTarget = readLinkTarget(systemPath);
+	} else if (stat) {
+		entry.kind = stat.isDirectory() ? "directory" : "file";
+		cpSync(systemPath, getStoredPath(snapshot.id, module.name), {
+			recursive: true,
+			verbatimSymlinks: true,
+			preserveTimestamps: true,
+		});
+	}
+
+	snapshot.entries.push(entry);
+	writeSnapshot(snapshot);
+}
+
+/**
+ * Record a file the install is about to create next to a module's system
+ * path, so rolling back removes it
+ */
+export function recordSnapshotFile(
+	pending: PendingSnapshot,
+	module: ModuleDefinition,
+	path: string,
+): void {
+	recordSnapshot(pending, module);
+	const snapshot = pending.snapshot as Snapshot;
+	const entry = snapshot.entries.find((e) => e.module === module.name);
+	if (!entry || existsSync(path) || entry.createdFiles?.includes(path)) {
+		return;
+	}
+	entry.createdFiles = [...(entry.createdFiles ?? []), path];
+	writeSnapshot(snapshot);
+}
+
+/**
+ * All snapshots on this machine, newest first
+ */
+export function listSnapshots(): Snapshot[] {
+	const snapshotsDir = getSnapshotsDir();
+	if (!existsSync(snapshotsDir)) {
+		return [];
+	}
+
+	return readdirSync(snapshotsDir)
+		.filter((id) => existsSync(join(snapshotsDir, id, SNAPSHOT_FILE)))
+		.sort()
+		.reverse()
+		.map((id) => loadSnapshot(id));
+}
+
+export function loadSnapshot(id: string): Snapshot {
+	const file = join(getSnapshotsDir(), id, SNAPSHOT_FILE);
+	if (!existsSync(file)) {
+		throw new Error(`Snapshot ${id} not found`);
+	}
+	return JSON.parse(readFileSync(file, "utf-8"));
+}
+
+/**
+ * Put a module's system path back exactly as recorded in the snapshot
+ */
+export function restoreSnapshotEntry(
+	snapshot: Snapshot,
+	entry: SnapshotEntry,
+): void {
+	rmSync(entry.systemPath, { recursive: true, force: true });
+
+	if (entry.kind === "symlink") {
+		ensureParentDir(entry.systemPath);
+		symlinkSync(entry.linkTarget as string, entry.systemPath);
+	} else if (entry.kind !== "missing") {
+		ensureParentDir(entry.systemPath);
+		cpSync(getStoredPath(snapshot.id, entry.module), entry.systemPath, {
+			recursive: true,
+			verbatimSymlinks: true,
+			preserveTimestamps: true,
+		});
+	}
+
+	for (const path of entry.createdFiles ?? []) {
+		rmSync(path, { force: true });
+	}
+
+	// Remove directories the install created, as long as nothing else was put there
+	for (const dir of entry.createdDirs) {
+		try {
+			rmdirSync(dir);
+		} catch {
+			break;
+		}
+	}
+
+	replaceModuleRecords(entry.module, entry.stateRecords ?? {});
+}
+
+/**
+ * Forget a restored entry, deleting the snapshot once it has no entries left
+ */
+export function removeSnapshotEntry(
+	snapshot: Snapshot,
+	entry: SnapshotEntry,
+): void {
+	snapshot.entries = snapshot.entries.filter((e) => e !== entry);
+	rmSync(getStoredPath(snapshot.id, entry.module), {
+		recursive: true,
+		force: true,
+	});
+
+	if (snapshot.entries.length === 0) {
+		rmSync(join(getSnapshotsDir(), snapshot.id), {
+			recursive: true,
+			force: true,
+		});
+	} else {
+		writeSnapshot(snapshot);
+	}
+}
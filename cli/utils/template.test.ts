@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { renderTemplate, writeBackToTemplate } from "./template.ts";
+
+const template = `a
+name={{ user }}
+{{#if work}}
+work=1
+{{else}}
+home=1
+{{/if}}
+token={{secret:gh}}
+z
+`;
+
+describe("renderTemplate", () => {
+	it("fills in variables and conditions, keeping secret placeholders", () => {
+		assert.deepEqual(renderTemplate(template, { user: "me", work: true }), {
+			text: "a\nname=me\nwork=1\ntoken={{secret:gh}}\nz\n",
+			lineMap: [0, null, 3, 7, 8],
+		});
+	});
+
+	it("compares values in conditions", () => {
+		const text = '{{#if os == "mac"}}mac{{else}}other{{/if}}\n';
+
+		assert.equal(renderTemplate(text, { os: "linux" }).text, "other\n");
+		assert.equal(renderTemplate(text, { os: "mac" }).text, "mac\n");
+	});
+
+	it("reports where a template is wrong", () => {
+		assert.throws(() => renderTemplate("x\n {{ nope }}\n", {}, "f.tmpl"), {
+			message: "f.tmpl: Unknown variable 'nope' at line 2, column 2",
+		});
+		assert.throws(() => renderTemplate("{{#if a b}}x{{/if}}\n", {}, "f.tmpl"), {
+			message: "f.tmpl: Invalid condition 'a b' at line 1, column 1",
+		});
+		assert.throws(() => renderTemplate("{{#if a}}x\n", { a: true }, "f.tmpl"), {
+			message: "f.tmpl: Unclosed {{#if}} at line 1, column 1",
+		});
+	});
+});
+
+describe("writeBackToTemplate", () => {
+	const rendered = renderTemplate(template, { user: "me", work: true });
+
+	it("applies changes to verbatim lines to the template", () => {
+		const content = rendered.text
+			.replace("a\n", "A\n")
+			.replace("z\n", "z\nnew\n");
+
+		assert.equal(
+			writeBackToTemplate(template, rendered, content),
+			template.replace("a\n", "A\n").replace("z\n", "z\nnew\n"),
+		);
+	});
+
+	it("refuses changes to lines that come from a variable", () => {
+		const content = rendered.text.replace("name=me", "name=you");
+
+		assert.throws(() => writeBackToTemplate(template, rendered, content), {
+			message:
+				"line 2 of the rendered file comes from a template variable or condition",
+		});
+	});
+
+	it("refuses lines that would read as template tags", () => {
+		const content = `${rendered.text}{{ x }}\n`;
+
+		assert.throws(() => writeBackToTemplate(template, rendered, content), {
+			message:
+				"line 6 of the rendered file would add '{{', which reads as a template tag",
+		});
+	});
+});
@@ -0,0 +1,434 @@
+import {
+	existsSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { hostname, tmpdir, userInfo } from "node:os";
+import { basename, join } from "node:path";
+import { getLineChanges, splitLines } from "./diff.ts";
+import { copyDirectory, readTextFile, setMemoryFile } from "./fs-helper.ts";
+import { getLineAndColumn, overlayJsonc, parseJsonc } from "./json-helper.ts";
+import {
+	getConfigDir,
+	getOverlayPaths,
+	getSourcePath,
+	getStateDir,
+	getTemplatePath,
+	type ModuleDefinition,
+} from "./manifest.ts";
+
+export type TemplateValue = string | number | boolean;
+export type TemplateValues = Record<string, TemplateValue>;
+
+type TemplateNode =
+	| { type: "text"; start: number; end: number }
+	| { type: "variable"; name: string; offset: number }
+	| {
+			type: "if";
+			condition: string;
+			offset: number;
+			ifTrue: TemplateNode[];
+			ifFalse: TemplateNode[];
+	  };
+
+export interface RenderedTemplate {
+	text: string;
+	/**
+	 * For each rendered line, the template line it is an exact copy of, or
+	 * null when the line involves a variable or a conditional
+	 */
+	lineMap: (number | null)[];
+}
+
+const TAG = /\{\{\s*(#if\s+|else\s*|\/if\s*)?(.*?)\s*\}\}/g;
+
+/**
+ * Local values file for template variables ($XDG_CONFIG_HOME/dotfiles/values.json)
+ */
+export function getValuesPath(): string {
+	return join(getConfigDir(), "values.json");
+}
+
+/**
+ * Built-in variables (hostname, user, os, home) overridden by the values file
+ */
+export function loadTemplateValues(): TemplateValues {
+	const values: TemplateValues = {
+		hostname: hostname(),
+		user: userInfo().username,
+		os: process.platform,
+		home: userInfo().homedir,
+	};
+
+	const valuesPath = getValuesPath();
+	if (!existsSync(valuesPath)) {
+		return values;
+	}
+
+	const local = parseJsonc(readFileSync(valuesPath, "utf-8"));
+	if (typeof local !== "object" || local === null || Array.isArray(local)) {
+		throw new Error(`${valuesPath}: expected an object of values`);
+	}
+	for (const [key, value] of Object.entries(local)) {
+		if (!["string", "number", "boolean"].includes(typeof value)) {
+			throw new Error(
+				`${valuesPath}: ${key} must be a string, number or boolean`,
+			);
+		}
+		values[key] = value as TemplateValue;
+	}
+	return values;
+}
+
+type IfNode = Extract<TemplateNode, { type: "if" }>;
+
+/**
+ * Parse a template into nodes. Block tags (`{{#if}}`, `{{else}}`, `{{/if}}`)
+ * alone on their line take the whole line with them, so they leave no blank
+ * lines behind.
+ */
+function parseTemplate(template: string, name: string): TemplateNode[] {
+	const fail = (message: string, offset: number): never => {
+		const { line, column } = getLineAndColumn(template, offset);
+		throw new Error(`${name}: ${message} at line ${line}, column ${column}`);
+	};
+
+	const root: TemplateNode[] = [];
+	const open: { node: IfNode; inElse: boolean }[] = [];
+	const currentBranch = (): TemplateNode[] => {
+		const frame = open[open.length - 1];
+		if (!frame) {
+			return root;
+		}
+		return frame.inElse ? frame.node.ifFalse : frame.node.ifTrue;
+	};
+	let pos = 0;
+
+	for (const match of template.matchAll(TAG)) {
+		const [tag, keyword = "", expression] = match;
+		const block = keyword.trim();
+		// Secret placeholders are left in the text as they are
+		if (!block && expression.startsWith("secret:")) {
+			continue;
+		}
+		let start = match.index;
+		let end = start + tag.length;
+
+		if (block) {
+			const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+			const newline = template.indexOf("\n", end);
+			const lineEnd = newline === -1 ? template.length : newline + 1;
+			if (
+				template.slice(lineStart, start).trim() === "" &&
+				template.slice(end, lineEnd).trim() === ""
+			) {
+				start = lineStart;
+				end = lineEnd;
+			}
+		}
+
+		if (start > pos) {
+			currentBranch().push({ type: "text", start: pos, end: start });
+		}
+		pos = end;
+
+		if (block === "#if") {
+			if (!expression) {
+				fail("Missing condition in {{#if}}", match.index);
+			}
+			const node: IfNode = {
+				type: "if",
+				condition: expression,
+				offset: match.index,
+				ifTrue: [],
+				ifFalse: [],
+			};
+			currentBranch().push(node);
+			open.push({ node, inElse: false });
+		} else if (block === "else") {
+			const frame = open[open.length - 1];
+			if (!frame || frame.inElse) {
+				fail("Unexpected {{else}}", match.index);
+			}
+			frame.inElse = true;
+		} else if (block === "/if") {
+			if (!open.pop()) {
+				fail("Unexpected {{/if}}", match.index);
+			}
+		} else if (!/^[A-Za-z_]\w*$/.test(expression)) {
+			fail(`Invalid variable name '${expression}'`, match.index);
+		} else {
+			currentBranch().push({
+				type: "variable",
+				name: expression,
+				offset: match.index,
+			});
+		}
+	}
+
+	if (open.length > 0) {
+		fail("Unclosed {{#if}}", open[open.length - 1].node.offset);
+	}
+	if (pos < template.length) {
+		root.push({ type: "text", start: pos, end: template.length });
+	}
+	return root;
+}
+
+/**
+ * Evaluate an {{#if}} condition: `name`, `!name`, `name == "value"` or
+ * `name != "value"`. Undefined variables are false.
+ */
+function evaluateCondition(
+	condition: string,
+	values: TemplateValues,
+): boolean | undefined {
+	const comparison = condition.match(
+		/^([A-Za-z_]\w*)\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|(\S+))$/,
+	);
+	if (comparison) {
+		const [, name, operator, double, single, bare] = comparison;
+		const equal =
+			String(values[name] ?? "") === (double ?? single ?? bare ?? "");
+		return operator === "==" ? equal : !equal;
+	}
+
+	const flag = condition.match(/^(!?)\s*([A-Za-z_]\w*)$/);
+	if (flag) {
+		const value = values[flag[2]];
+		const truthy = value !== undefined && value !== false && value !== "";
+		return flag[1] ? !truthy : truthy;
+	}
+
+	return undefined;
+}
+
+/**
+ * Render a template with `{{ name }}` variables and
+ * `{{#if condition}} ... {{else}} ... {{/if}}` blocks. `{{secret:name}}`
+ * placeholders are kept as they are.
+ */
+export function renderTemplate(
+	template: string,
+	values: TemplateValues,
+	name = "template",
+): RenderedTemplate {
+	const nodes = parseTemplate(template, name);
+	const fail = (message: string, offset: number): never => {
+		const { line, column } = getLineAndColumn(template, offset);
+		throw new Error(`${name}: ${message} at line ${line}, column ${column}`);
+	};
+
+	let text = "";
+	// Template offset of each rendered character, -1 for substituted values
+	const origins: number[] = [];
+
+	const render = (branch: TemplateNode[]) => {
+		for (const node of branch) {
+			if (node.type === "text") {
+				text += template.slice(node.start, node.end);
+				for (let i = node.start; i < node.end; i++) {
+					origins.push(i);
+				}
+			} else if (node.type === "variable") {
+				const value = values[node.name];
+				if (value === undefined) {
+					fail(`Unknown variable '${node.name}'`, node.offset);
+				}
+				text += String(value);
+				origins.push(...Array(String(value).length).fill(-1));
+			} else {
+				const result = evaluateCondition(node.condition, values);
+				if (result === undefined) {
+					fail(`Invalid condition '${node.condition}'`, node.offset);
+				}
+				render(result ? node.ifTrue : node.ifFalse);
+			}
+		}
+	};
+	render(nodes);
+
+	const templateLines = splitLines(template);
+	const templateLineStarts: number[] = [];
+	let offset = 0;
+	for (const line of templateLines) {
+		templateLineStarts.push(offset);
+		offset += line.length;
+	}
+
+	// A rendered line maps back to a template line only if it is a verbatim copy
+	const lineMap: (number | null)[] = [];
+	let lineStart = 0;
+	for (const line of splitLines(text)) {
+		const origin = origins[lineStart];
+		const templateLine = templateLineStarts.indexOf(origin);
+		const verbatim =
+			origin >= 0 &&
+			templateLine !== -1 &&
+			templateLines[templateLine] === line &&
+			origins
+				.slice(lineStart, lineStart + line.length)
+				.every((o, i) => o === origin + i);
+		lineMap.push(verbatim ? templateLine : null);
+		lineStart += line.length;
+	}
+
+	return { text, lineMap };
+}
+
+/**
+ * Apply changes made to the rendered output back to the template.
+ * Throws when a change touches a line produced by a variable or a
+ * conditional, since there is no way to tell how the template should change.
+ */
+export function writeBackToTemplate(
+	template: string,
+	rendered: RenderedTemplate,
+	content: string,
+): string {
+	const templateLines = splitLines(template);
+	const { lineMap } = rendered;
+	const edits: { start: number; end: number; lines: string[] }[] = [];
+
+	for (const change of getLineChanges(
+		splitLines(rendered.text),
+		splitLines(content),
+	)) {
+		const describe = `line ${change.start + 1} of the rendered file`;
+		if (change.lines.some((line) => line.includes("{{"))) {
+			throw new Error(
+				`${describe} would add '{{', which reads as a template tag`,
+			);
+		}
+
+		if (change.end > change.start) {
+			const mapped = lineMap.slice(change.start, change.end);
+			const first = mapped[0];
+			if (first === null || mapped.some((line, i) => line !== first + i)) {
+				throw new Error(
+					`${describe} comes from a template variable or condition`,
+				);
+			}
+			edits.push({
+				start: first,
+				end: first + mapped.length,
+				lines: change.lines,
+			});
+			continue;
+		}
+
+		const before = change.start > 0 ? lineMap[change.start - 1] : undefined;
+		const after = lineMap[change.start];
+		let at: number;
+		if (before !== undefined && before !== null) {
+			at = before + 1;
+		} else if (after !== undefined && after !== null) {
+			at = after;
+		} else if (lineMap.length === 0) {
+			at = templateLines.length;
+		} else {
+			throw new Error(
+				`${describe} is next to a template variable or condition`,
+			);
+		}
+		edits.push({ start: at, end: at, lines: change.lines });
+	}
+
+	// Apply from the bottom up so earlier line numbers stay valid
+	for (const edit of edits.sort((a, b) => b.start - a.start)) {
+		templateLines.splice(edit.start, edit.end - edit.start, ...edit.lines);
+	}
+	return templateLines.join("");
+}
+
+function getRenderedDir(): string {
+	return join(getStateDir(), "rendered");
+}
+
+/**
+ * Render a module's template with the values of this machine
+ */
+export function renderModuleTemplate(
+	module: ModuleDefinition,
+): RenderedTemplate | undefined {
+	const templatePath = getTemplatePath(module);
+	if (!templatePath) {
+		return undefined;
+	}
+	return renderTemplate(
+		readFileSync(templatePath, "utf-8"),
+		loadTemplateValues(),
+		basename(templatePath),
+	);
+}
+
+/**
+ * Path of the file to install for a module: the configs/ (or backup) copy,
+ * or, when it is rendered from a template or has overlays from a profile or
+ * host layer, a rendered copy kept in memory under the state directory (see
+ * setMemoryFile). Directories are rendered file by file, taking each file
+ * from its layer (see getLayeredFilePath), so their configs/ copy is returned.
+ */
+export function getRenderedSourcePath(
+	module: ModuleDefinition,
+	from?: string,
+): string {
+	if (from || module.type === "directory") {
+		return getSourcePath(module, from);
+	}
+
+	const rendered = renderModuleTemplate(module);
+	const overlays = getOverlayPaths(module);
+	if (!rendered && overlays.length === 0) {
+		return getSourcePath(module);
+	}
+
+	// JSON overlays are deep merged into the base
+	let text = rendered?.text ?? readFileSync(getSourcePath(module), "utf-8");
+	for (const overlay of overlays) {
+		text = overlayJsonc(parseJsonc(readFileSync(overlay, "utf-8")), text);
+	}
+
+	const renderedPath = join(getRenderedDir(), module.repoPath);
+	setMemoryFile(renderedPath, text);
+	return renderedPath;
+}
+
+/**
+ * Run `check` on the files to install for a module as real files, for tools
+ * that read them from disk (like the validators). Rendered files and the
+ * layers of a directory are copied to a temporary directory, removed after.
+ */
+export function withRenderedFiles<T>(
+	module: ModuleDefinition,
+	check: (path: string) => T,
+	from?: string,
+): T {
+	const source = getRenderedSourcePath(module, from);
+	const overlays = from ? [] : getOverlayPaths(module);
+	const rendered =
+		module.type === "directory"
+			? overlays.length > 0
+			: source !== getSourcePath(module, from);
+	if (!rendered) {
+		return check(source);
+	}
+
+	const dir = mkdtempSync(join(tmpdir(), "dotfiles-rendered-"));
+	try {
+		const path = join(dir, basename(module.repoPath));
+		if (module.type === "directory") {
+			// Files of higher layers replace the ones below them
+			for (const layer of [source, ...overlays]) {
+				copyDirectory(layer, path);
+			}
+		} else {
+			writeFileSync(path, readTextFile(source));
+		}
+		return check(path);
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,72 @@
+import { spawnSync } from "node:child_process";
+
+/**
+ * Whether to color the output: only on a terminal, unless FORCE_COLOR turns
+ * it on or NO_COLOR turns it off (https://no-color.org)
+ */
+export function useColor(stream: NodeJS.WriteStream = process.stdout): boolean {
+	// FORCE_COLOR wins, as in Node itself
+	const force = process.env.FORCE_COLOR;
+	if (force !== undefined) {
+		return force !== "0" && force !== "false";
+	}
+	if (process.env.NO_COLOR) {
+		return false;
+	}
+	return stream.isTTY === true;
+}
+
+export function stripColor(text: string): string {
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: matching escape codes
+	return text.replace(/\x1b\[[\d;]*m/g, "");
+}
+
+/**
+ * Write text to a stream, without colors when they are off for it
+ */
+export function writeText(
+	text: string,
+	stream: NodeJS.WriteStream = process.stdout,
+): void {
+	stream.write(useColor(stream) ? text : stripColor(text));
+}
+
+/**
+ * Print a line to stdout, without colors when they are off
+ */
+export function printLine(line = ""): void {
+	writeText(`${line}\n`);
+}
+
+/**
+ * Print text, without colors when they are off. Text taller than the
+ * terminal goes through $PAGER (`less -R` by default) when `pager` is set
+ * and stdout is a terminal.
+ */
+export function printPaged(text: string, pager = true): void {
+	const output = useColor() ? text : stripColor(text);
+	const rows = process.stdout.rows ?? 0;
+
+	if (
+		pager &&
+		process.stdout.isTTY &&
+		process.stdin.isTTY &&
+		output.split("\n").length > rows
+	) {
+		const command = process.env.PAGER ?? "less -R";
+		// Like git: quit when it fits, keep colors and the screen
+		const result = command
+			? spawnSync(command, {
+					shell: true,
+					input: output,
+					stdio: ["pipe", "inherit", "inherit"],
+					env: { ...process.env, LESS: process.env.LESS ?? "FRX" },
+				})
+			: undefined;
+		if (result && !result.error && result.status === 0) {
+			return;
+		}
+	}
+
+	process.stdout.write(output);
+}
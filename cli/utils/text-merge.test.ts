@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeText } from "./text-merge.ts";
+
+const labels = { ours: "system", theirs: "repo" };
+
+describe("mergeText", () => {
+	it("combines changes to different lines", () => {
+		const base = "a\nb\nc\nd\ne\n";
+		const ours = "A\nb\nc\nd\ne\n";
+		const theirs = "a\nb\nc\nd\nE\n";
+
+		assert.deepEqual(mergeText(ours, base, theirs, labels), {
+			text: "A\nb\nc\nd\nE\n",
+			conflicts: 0,
+		});
+	});
+
+	it("takes a change made the same way on both sides once", () => {
+		const base = "a\nb\nc\n";
+		const both = "a\nB\nc\n";
+
+		assert.deepEqual(mergeText(both, base, both, labels), {
+			text: both,
+			conflicts: 0,
+		});
+	});
+
+	it("writes overlapping changes as a conflict block", () => {
+		const base = "a\nb\nc\n";
+		const ours = "a\nours\nc\n";
+		const theirs = "a\ntheirs\nc\n";
+
+		assert.deepEqual(mergeText(ours, base, theirs, labels), {
+			text: "a\n<<<<<<< system\nours\n=======\ntheirs\n>>>>>>> repo\nc\n",
+			conflicts: 1,
+		});
+	});
+
+	it("treats changes to adjacent lines as a conflict", () => {
+		const base = "a\nb\nc\n";
+		const ours = "A\nb\nc\n";
+		const theirs = "a\nB\nc\n";
+
+		const { text, conflicts } = mergeText(ours, base, theirs, labels);
+		assert.equal(conflicts, 1);
+		assert.equal(
+			text,
+			"<<<<<<< system\nA\nb\n=======\na\nB\n>>>>>>> repo\nc\n",
+		);
+	});
+
+	it("counts each conflicting region", () => {
+		const base = "a\n1\n2\n3\nb\n";
+		const ours = "x\n1\n2\n3\ny\n";
+		const theirs = "X\n1\n2\n3\nY\n";
+
+		assert.equal(mergeText(ours, base, theirs, labels).conflicts, 2);
+	});
+
+	it("ends both sides of a conflict at the last line with a newline", () => {
+		const base = "a\nb";
+		const ours = "a\nours";
+		const theirs = "a\ntheirs";
+
+		assert.equal(
+			mergeText(ours, base, theirs, labels).text,
+			"a\n<<<<<<< system\nours\n=======\ntheirs\n>>>>>>> repo\n",
+		);
+	});
+
+	it("keeps a deletion on one side when the other side did not touch the lines", () => {
+		const base = "a\nb\nc\nd\ne\n";
+		const ours = "a\nb\nc\nd\ne\nf\n";
+		const theirs = "a\nc\nd\ne\n";
+
+		assert.deepEqual(mergeText(ours, base, theirs, labels), {
+			text: "a\nc\nd\ne\nf\n",
+			conflicts: 0,
+		});
+	});
+});
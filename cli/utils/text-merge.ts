@@ -0,0 +1,197 @@
+import { getLineChanges, type LineChange, splitLines } from "./diff.ts";
+import { fileExists, readTextFile } from "./fs-helper.ts";
+import { getBaseContent, getModuleFilePairs } from "./install-state.ts";
+import type { ModuleDefinition } from "./manifest.ts";
+
+/** A change made by one side of a merge */
+interface Hunk extends LineChange {
+	side: "ours" | "theirs";
+}
+
+export interface MergeLabels {
+	ours: string;
+	theirs: string;
+}
+
+export interface TextMergeResult {
+	text: string;
+	conflicts: number;
+}
+
+function getHunks(base: string[], other: string[], side: Hunk["side"]): Hunk[] {
+	return getLineChanges(base, other).map((change) => ({ ...change, side }));
+}
+
+/**
+ * Apply one side's hunks to the base lines from start to end
+ */
+function applyHunks(
+	base: string[],
+	start: number,
+	end: number,
+	hunks: Hunk[],
+): string[] {
+	const lines: string[] = [];
+	let index = start;
+	for (const hunk of hunks) {
+		lines.push(...base.slice(index, hunk.start), ...hunk.lines);
+		index = hunk.end;
+	}
+	lines.push(...base.slice(index, end));
+	return lines;
+}
+
+function ensureNewline(lines: string[]): string[] {
+	const last = lines[lines.length - 1];
+	return last === undefined || last.endsWith("\n")
+		? lines
+		: [...lines.slice(0, -1), `${last}\n`];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge two descendants of a common base line by line (diff3). Changes that
+ * touch different parts of the base are combined; overlapping or adjacent
+ * changes that differ become a git-style conflict block.
+ */
+export function mergeText(
+	ours: string,
+	base: string,
+	theirs: string,
+	labels: MergeLabels,
+): TextMergeResult {
+	const baseLines = splitLines(base);
+	const hunks = [
+		...getHunks(baseLines, splitLines(ours), "ours"),
+		...getHunks(baseLines, splitLines(theirs), "theirs"),
+	].sort((a, b) => a.start - b.start || a.end - b.end);
+
+	const output: string[] = [];
+	let conflicts = 0;
+	let index = 0;
+	let i = 0;
+
+	while (i < hunks.length) {
+		// Group hunks whose base ranges overlap or touch
+		const group = [hunks[i]];
+		let start = hunks[i].start;
+		let end = hunks[i].end;
+		i++;
+		while (i < hunks.length && hunks[i].start <= end) {
+			group.push(hunks[i]);
+			start = Math.min(start, hunks[i].start);
+			end = Math.max(end, hunks[i].end);
+			i++;
+		}
+
+		output.push(...baseLines.slice(index, start));
+		index = end;
+
+		const oursHunks = group.filter((hunk) => hunk.side === "ours");
+		const theirsHunks = group.filter((hunk) => hunk.side === "theirs");
+		const oursLines = applyHunks(baseLines, start, end, oursHunks);
+		const theirsLines = applyHunks(baseLines, start, end, theirsHunks);
+
+		if (theirsHunks.length === 0 || sameLines(oursLines, theirsLines)) {
+			output.push(...oursLines);
+		} else if (oursHunks.length === 0) {
+			output.push(...theirsLines);
+		} else {
+			conflicts++;
+			output.push(
+				`<<<<<<< ${labels.ours}\n`,
+				...ensureNewline(oursLines),
+				"=======\n",
+				...ensureNewline(theirsLines),
+				`>>>>>>> ${labels.theirs}\n`,
+			);
+		}
+	}
+
+	output.push(...baseLines.slice(index));
+	return { text: output.join(""), conflicts };
+}
+
+/**
+ * What a three-way merge would do to one file of a module
+ * - unchanged: the target already has every change (e.g. both sides match)
+ * - copy: the file only exists on the side being merged in
+ * - keep: the file only exists on the side being written to
+ * - merged: `content` combines both sides cleanly
+ * - conflict: `content` holds conflict markers
+ * - no-base: both sides differ but there is no recorded base to merge from
+ */
+export type FileMergeAction =
+	| "unchanged"
+	| "copy"
+	| "keep"
+	| "merged"
+	| "conflict"
+	| "no-base";
+
+export interface FileMerge {
+	/** File being written to */
+	target: string;
+	/** File whose changes are merged in */
+	incoming: string;
+	action: FileMergeAction;
+	content?: string;
+	conflicts?: number;
+}
+
+/**
+ * Plan a three-way merge of every file of a module, using the repo copy
+ * recorded at the last install or sync as the common base.
+ * "install" merges the repo into the system, "sync" the system into the repo.
+ */
+export function planModuleMerge(
+	module: ModuleDefinition,
+	direction: "install" | "sync",
+): FileMerge[] {
+	return getModuleFilePairs(module).map(({ repoFile, systemFile }) => {
+		const [target, incoming] =
+			direction === "install" ? [systemFile, repoFile] : [repoFile, systemFile];
+		const labels =
+			direction === "install"
+				? { ours: "system", theirs: "repo" }
+				: { ours: "repo", theirs: "system" };
+
+		if (!fileExists(incoming)) {
+			return { target, incoming, action: "keep" };
+		}
+		if (!fileExists(target)) {
+			return { target, incoming, action: "copy" };
+		}
+
+		const targetContent = readTextFile(target);
+		const incomingContent = readTextFile(incoming);
+		if (targetContent === incomingContent) {
+			return { target, incoming, action: "unchanged" };
+		}
+
+		const base = getBaseContent(systemFile);
+		if (base === undefined) {
+			return { target, incoming, action: "no-base" };
+		}
+
+		const { text, conflicts } = mergeText(
+			targetContent,
+			base,
+			incomingContent,
+			labels,
+		);
+		if (conflicts === 0 && text === targetContent) {
+			return { target, incoming, action: "unchanged" };
+		}
+		return {
+			target,
+			incoming,
+			action: conflicts > 0 ? "conflict" : "merged",
+			content: text,
+			conflicts,
+		};
+	});
+}
@@ -0,0 +1,418 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { type BlockMarkers, replaceManagedBlock } from "./managed-block.ts";
+import { repoRoot } from "./manifest.ts";
+
+export const themePath = join(repoRoot, "theme.json");
+
+export type ThemeVariantName = "dark" | "light";
+
+const VARIANT_NAMES: ThemeVariantName[] = ["dark", "light"];
+
+/** Colors every variant defines, referenced by the generated files */
+const COLOR_ROLES = [
+	"background",
+	"foreground",
+	"accent",
+	// Text drawn on the accent color (status lines, selected menu items)
+	"onAccent",
+	"focus",
+	"muted",
+	"subtle",
+	// Text of the selected menu item
+	"menuSelected",
+	// Menus, popups and help
+	"surface",
+	"inactive",
+	"highlight",
+	"selection",
+	"border",
+	"ruler",
+	"function",
+	"builtin",
+	// Builtin types like i32 or str
+	"builtinType",
+	"parameter",
+	"type",
+	"constant",
+	"number",
+	// Escapes in strings
+	"escape",
+	// Special tokens and link URLs
+	"special",
+	"error",
+	"warning",
+	"hint",
+	"added",
+	"changed",
+	"removed",
+] as const;
+
+type ColorRole = (typeof COLOR_ROLES)[number];
+
+export interface ThemeVariant {
+	/** Leave the terminal background instead of painting ui.background */
+	transparent: boolean;
+	/** Comment lines at the top of the helix theme, without the `# ` */
+	header?: string[];
+	colors: Record<ColorRole, string>;
+}
+
+export interface ThemeDefinition {
+	name: string;
+	description?: string;
+	/** Paths relative to configs/ of the files generated from the palette */
+	outputs: { helix?: string; tmux?: string };
+	/** Variant the tmux colors come from */
+	tmux: ThemeVariantName;
+	variants: Partial<Record<ThemeVariantName, ThemeVariant>>;
+}
+
+/** A file generated from the palette */
+export interface ThemeOutput {
+	/** Path relative to the repo root */
+	path: string;
+	content: string;
+}
+
+const TMUX_MARKERS: BlockMarkers = {
+	start: "# >>> dotfiles theme >>>",
+	end: "# <<< dotfiles theme <<<",
+};
+
+/** A helix style written with color roles instead of colors */
+type HelixStyle =
+	| ColorRole
+	| {
+			fg?: ColorRole;
+			bg?: ColorRole;
+			underline?: { color?: ColorRole; style: string };
+			modifiers?: string[];
+	  };
+
+/** Helix scopes and the roles they are colored with, in groups */
+const HELIX_SCOPES: [string, HelixStyle][][] = [
+	[
+		["ui.text", "foreground"],
+		["ui.text.focus", "focus"],
+		["ui.cursor", { fg: "background", bg: "accent" }],
+		[
+			"ui.cursor.match",
+			{ bg: "highlight", underline: { color: "accent", style: "curl" } },
+		],
+		["ui.selection", { bg: "selection" }],
+		["ui.linenr", "muted"],
+		["ui.linenr.selected", "accent"],
+		["ui.statusline", { fg: "onAccent", bg: "accent" }],
+		["ui.statusline.inactive", { fg: "muted", bg: "inactive" }],
+		["ui.menu", { fg: "foreground", bg: "surface" }],
+		["ui.menu.selected", { fg: "menuSelected", bg: "accent" }],
+		["ui.popup", { fg: "foreground", bg: "surface" }],
+		["ui.window", { fg: "border" }],
+		["ui.help", { fg: "foreground", bg: "surface" }],
+		["ui.virtual.ruler", { bg: "ruler" }],
+	],
+	[
+		["string", "accent"],
+		["constant", "constant"],
+		["constant.numeric", "number"],
+		["constant.character.escape", "escape"],
+	],
+	[
+		["comment", "muted"],
+		["comment.documentation", "subtle"],
+	],
+	[
+		["variable", "foreground"],
+		["variable.parameter", "parameter"],
+		["variable.builtin", "type"],
+	],
+	[
+		["keyword", "accent"],
+		["keyword.control", "accent"],
+		["keyword.operator", "function"],
+	],
+	[
+		["function", "function"],
+		["function.builtin", "builtin"],
+		["function.macro", "accent"],
+	],
+	[
+		["type", "type"],
+		["type.builtin", "builtinType"],
+	],
+	[
+		["constructor", "function"],
+		["operator", "function"],
+	],
+	[
+		["attribute", "parameter"],
+		["namespace", "type"],
+		["tag", "accent"],
+	],
+	[
+		["special", "special"],
+		["markup.heading", "accent"],
+		["markup.list", "function"],
+		["markup.bold", { fg: "accent", modifiers: ["bold"] }],
+		["markup.italic", { fg: "function", modifiers: ["italic"] }],
+		["markup.link.url", { fg: "special", underline: { style: "line" } }],
+		["markup.link.text", "function"],
+		["markup.quote", "parameter"],
+		["markup.raw", "accent"],
+	],
+	[
+		["diff.plus", "added"],
+		["diff.delta", "changed"],
+		["diff.minus", "removed"],
+	],
+	[
+		["diagnostic.error", { underline: { color: "error", style: "curl" } }],
+		["diagnostic.warning", { underline: { color: "warning", style: "curl" } }],
+		["diagnostic.info", { underline: { color: "accent", style: "curl" } }],
+		["diagnostic.hint", { underline: { color: "hint", style: "curl" } }],
+	],
+	[
+		["error", "error"],
+		["warning", "warning"],
+		["info", "accent"],
+		["hint", "hint"],
+	],
+];
+
+/** A variant of theme.json as written, before it is validated */
+interface ThemeVariantEntry {
+	transparent?: unknown;
+	header?: unknown;
+	colors?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseVariant(value: unknown, where: string): ThemeVariant {
+	if (!isObject(value)) {
+		throw new Error(`${where} must be an object`);
+	}
+	const { transparent, header, colors }: ThemeVariantEntry = value;
+	if (!isObject(colors)) {
+		throw new Error(`${where}.colors must be an object`);
+	}
+	for (const role of COLOR_ROLES) {
+		const color = colors[role];
+		if (typeof color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+			throw new Error(`${where}.colors.${role} must be a #rrggbb color`);
+		}
+	}
+	const unknown = Object.keys(colors).filter(
+		(role) => !COLOR_ROLES.includes(role as ColorRole),
+	);
+	if (unknown.length > 0) {
+		throw new Error(
+			`${where}.colors has unknown role(s) ${unknown.join(", ")} (use ${COLOR_ROLES.join(", ")})`,
+		);
+	}
+	if (
+		header !== undefined &&
+		(!Array.isArray(header) ||
+			header.some((line: unknown) => typeof line !== "string"))
+	) {
+		throw new Error(`${where}.header must be an array of comment lines`);
+	}
+	return {
+		transparent: transparent === true,
+		// Both were checked field by field above
+		header: header as string[] | undefined,
+		colors: colors as Record<ColorRole, string>,
+	};
+}
+
+/**
+ * Parse and validate the contents of theme.json
+ */
+export function parseThemeDefinition(content: string): ThemeDefinition {
+	const raw = JSON.parse(content);
+
+	if (typeof raw.name !== "string" || !/^[\w-]+$/.test(raw.name)) {
+		throw new Error("theme.json: name must be a file name like color75");
+	}
+	if (typeof raw.variants !== "object" || raw.variants === null) {
+		throw new Error("theme.json: variants must be an object");
+	}
+
+	const variants: ThemeDefinition["variants"] = {};
+	for (const [name, entry] of Object.entries(raw.variants)) {
+		if (!VARIANT_NAMES.includes(name as ThemeVariantName)) {
+			throw new Error(
+				`theme.json: unknown variant '${name}' (use ${VARIANT_NAMES.join(", ")})`,
+			);
+		}
+		variants[name as ThemeVariantName] = parseVariant(
+			entry,
+			`theme.json: variants.${name}`,
+		);
+	}
+
+	const tmux = raw.tmux ?? "dark";
+	const outputs = raw.outputs ?? {};
+	// Only helix and tmux are generated, other editors keep their own themes
+	const unknownOutputs = Object.keys(outputs).filter(
+		(output) => output !== "helix" && output !== "tmux",
+	);
+	if (unknownOutputs.length > 0) {
+		throw new Error(
+			`theme.json: unknown output(s) ${unknownOutputs.join(", ")} (use helix, tmux)`,
+		);
+	}
+	if (outputs.tmux && !variants[tmux as ThemeVariantName]) {
+		throw new Error(`theme.json: tmux names the missing variant '${tmux}'`);
+	}
+
+	return {
+		name: raw.name,
+		description: raw.description,
+		outputs: { helix: outputs.helix, tmux: outputs.tmux },
+		tmux,
+		variants,
+	};
+}
+
+export function loadThemeDefinition(): ThemeDefinition {
+	if (!existsSync(themePath)) {
+		throw new Error("theme.json not found at the repo root");
+	}
+	return parseThemeDefinition(readFileSync(themePath, "utf-8"));
+}
+
+function formatHelixStyle(
+	style: HelixStyle,
+	colors: Record<ColorRole, string>,
+): string {
+	if (typeof style === "string") {
+		return `"${colors[style]}"`;
+	}
+
+	const fields: string[] = [];
+	if (style.fg) {
+		fields.push(`fg = "${colors[style.fg]}"`);
+	}
+	if (style.bg) {
+		fields.push(`bg = "${colors[style.bg]}"`);
+	}
+	if (style.underline) {
+		const { color, style: underlineStyle } = style.underline;
+		fields.push(
+			color
+				? `underline = { color = "${colors[color]}", style = "${underlineStyle}" }`
+				: `underline = { style = "${underlineStyle}" }`,
+		);
+	}
+	if (style.modifiers) {
+		fields.push(
+			`modifiers = [${style.modifiers.map((modifier) => `"${modifier}"`).join(", ")}]`,
+		);
+	}
+	return `{ ${fields.join(", ")} }`;
+}
+
+/**
+ * Render one variant as a helix theme file
+ */
+export function renderHelixTheme(
+	theme: ThemeDefinition,
+	variantName: ThemeVariantName,
+	variant: ThemeVariant,
+): string {
+	const header = variant.header ?? [
+		`${theme.description ?? theme.name}, ${variantName} variant`,
+		"Generated by `dotfiles theme build` from theme.json, edit the palette there",
+	];
+	const lines = [...header.map((line) => `# ${line}`.trimEnd()), ""];
+
+	// ui.background opens the first group, before ui.text
+	const [first, ...rest] = HELIX_SCOPES;
+	const groups: [string, HelixStyle][][] = variant.transparent
+		? HELIX_SCOPES
+		: [[["ui.background", { bg: "background" }], ...first], ...rest];
+	for (const [index, group] of groups.entries()) {
+		if (index > 0) {
+			lines.push("");
+		}
+		for (const [scope, style] of group) {
+			lines.push(`"${scope}" = ${formatHelixStyle(style, variant.colors)}`);
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * The tmux lines that set colors: user options for the formats of
+ * status-left and the window list, and the styles using them
+ */
+export function renderTmuxBlock(theme: ThemeDefinition): string {
+	const variant = theme.variants[theme.tmux] as ThemeVariant;
+	const { accent, onAccent } = variant.colors;
+	return [
+		`# Generated by \`dotfiles theme build\` from theme.json (${theme.tmux} variant)`,
+		`set -g @theme_accent "${accent}"`,
+		`set -g @theme_on_accent "${onAccent}"`,
+		`set -g status-style fg="${onAccent}",bg="${accent}"`,
+		`set -g pane-active-border-style fg="${accent}"`,
+		`set -g message-command-style fg="${onAccent}",bg="${accent}"`,
+		`set -g message-style fg="${onAccent}",bg="${accent}"`,
+		"",
+	].join("\n");
+}
+
+/**
+ * Helix theme file of a variant: the dark one is named after the theme, the
+ * others get the variant as a suffix (color75.toml, color75-light.toml)
+ */
+function getHelixThemePath(
+	theme: ThemeDefinition,
+	dir: string,
+	variantName: ThemeVariantName,
+): string {
+	const suffix = variantName === "dark" ? "" : `-${variantName}`;
+	return join("configs", dir, `${theme.name}${suffix}.toml`);
+}
+
+/**
+ * Generate the files of the theme. The tmux colors replace the marked block
+ * of the current tmux config, or are appended to it.
+ */
+export function buildTheme(theme: ThemeDefinition): ThemeOutput[] {
+	const outputs: ThemeOutput[] = [];
+
+	if (theme.outputs.helix) {
+		for (const variantName of VARIANT_NAMES) {
+			const variant = theme.variants[variantName];
+			if (variant) {
+				outputs.push({
+					path: getHelixThemePath(theme, theme.outputs.helix, variantName),
+					content: renderHelixTheme(theme, variantName, variant),
+				});
+			}
+		}
+	}
+
+	if (theme.outputs.tmux) {
+		const path = join("configs", theme.outputs.tmux);
+		const current = existsSync(join(repoRoot, path))
+			? readFileSync(join(repoRoot, path), "utf-8")
+			: "";
+		outputs.push({
+			path,
+			content: replaceManagedBlock(
+				current,
+				renderTmuxBlock(theme),
+				path,
+				TMUX_MARKERS,
+			),
+		});
+	}
+
+	return outputs;
+}
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	isTomlDateTime,
+	mergeToml,
+	parseToml,
+	stringifyToml,
+} from "./toml-helper.ts";
+
+describe("parseToml", () => {
+	it("reads dotted and quoted keys", () => {
+		assert.deepEqual(parseToml('a."b.c".d = 1\n"quoted key" = true\n'), {
+			a: { "b.c": { d: 1 } },
+			"quoted key": true,
+		});
+	});
+
+	it("reads basic, literal and multi-line strings", () => {
+		const text = [
+			's = "tab\\there"',
+			"l = 'C:\\path'",
+			'm = """',
+			"first \\",
+			'   second"""',
+			"r = '''",
+			"raw\\n'''",
+			"",
+		].join("\n");
+
+		assert.deepEqual(parseToml(text), {
+			s: "tab\there",
+			l: "C:\\path",
+			m: "first second",
+			r: "raw\\n",
+		});
+	});
+
+	it("reads numbers in every notation", () => {
+		const value = parseToml(
+			"n = 1_000\nh = 0xff\no = 0o17\nb = 0b101\nf = 6.02e23\ni = -inf\n",
+		);
+
+		assert.deepEqual(value, {
+			n: 1000,
+			h: 255,
+			o: 15,
+			b: 5,
+			f: 6.02e23,
+			i: Number.NEGATIVE_INFINITY,
+		});
+		assert.ok(Number.isNaN(parseToml("x = nan\n").x));
+	});
+
+	it("keeps dates and times as written", () => {
+		const { offset, local } = parseToml(
+			"offset = 1979-05-27T07:32:00Z\nlocal = 07:32:00\n",
+		);
+
+		assert.ok(isTomlDateTime(offset));
+		assert.equal(offset.value, "1979-05-27T07:32:00Z");
+		assert.ok(isTomlDateTime(local));
+		assert.equal(local.value, "07:32:00");
+	});
+
+	it("reads inline tables and arrays of tables", () => {
+		const text =
+			't = { a = 1, b.c = 2 }\n[[bin]]\nname = "a"\n[[bin]]\nname = "b"\n';
+
+		assert.deepEqual(parseToml(text), {
+			t: { a: 1, b: { c: 2 } },
+			bin: [{ name: "a" }, { name: "b" }],
+		});
+	});
+
+	it("keeps keys like __proto__ as plain data", () => {
+		const value = parseToml('__proto__ = "x"\n');
+
+		assert.equal(Object.getPrototypeOf(value), Object.prototype);
+		assert.deepEqual(Object.keys(value), ["__proto__"]);
+	});
+
+	it("rejects keys and tables defined twice", () => {
+		assert.throws(() => parseToml("a = 1\na = 2\n"), {
+			message: "Duplicate key 'a' at line 2, column 1",
+		});
+		assert.throws(() => parseToml("[t]\nx = 1\n[t]\ny = 2\n"), {
+			message: "Table [t] is defined more than once at line 3, column 1",
+		});
+		assert.throws(() => parseToml("t = { a = 1 }\n[t]\nb = 2\n"), {
+			message: "Table [t] is defined more than once at line 2, column 1",
+		});
+	});
+
+	it("reports where a value is invalid", () => {
+		assert.throws(() => parseToml("a = \n"), {
+			message: "Invalid value at line 1, column 5",
+		});
+		assert.throws(() => parseToml('a = "open\n'), {
+			message: "Unterminated string at line 1, column 5",
+		});
+	});
+});
+
+describe("stringifyToml", () => {
+	it("writes values that parse back the same", () => {
+		const value = parseToml(
+			'a = "quote \\" and \\\\"\n[t]\nlist = [1, 2]\n"odd key" = { x = false }\n',
+		);
+
+		assert.deepEqual(parseToml(stringifyToml(value)), value);
+	});
+});
+
+describe("mergeToml", () => {
+	it("adds only the missing keys and tables, keeping comments and values", () => {
+		const source = parseToml(
+			[
+				'theme = "color75"',
+				"[editor]",
+				'line-number = "relative"',
+				"mouse = false",
+				"[editor.cursor-shape]",
+				'insert = "bar"',
+				"",
+			].join("\n"),
+		);
+		const dest =
+			'# my config\ntheme = "mine" # keep\n\n[editor]\nmouse = true\n';
+
+		assert.equal(
+			mergeToml(source, dest),
+			[
+				"# my config",
+				'theme = "mine" # keep',
+				"",
+				"[editor]",
+				"mouse = true",
+				'line-number = "relative"',
+				"",
+				"[editor.cursor-shape]",
+				'insert = "bar"',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("adds keys inside an existing inline table", () => {
+		assert.equal(
+			mergeToml(parseToml("t = { a = 1, b = 2 }\n"), "t = { a = 5 }\n"),
+			"t = { a = 5, b = 2 }\n",
+		);
+	});
+
+	it("writes new lines with the line endings of the file", () => {
+		assert.equal(
+			mergeToml(parseToml("[[a]]\nx = 1\n"), "b = 1\r\n"),
+			"b = 1\r\n\r\n[[a]]\r\nx = 1\r\n",
+		);
+	});
+
+	it("leaves a file that has every key unchanged", () => {
+		const dest = "# comment\na = 2 # mine\n";
+
+		assert.equal(mergeToml(parseToml("a = 1\n"), dest), dest);
+	});
+});
@@ -0,0 +1,822 @@
+import { applyEdits, getLineAndColumn, type TextEdit } from "./json-helper.ts";
+
+const DATETIME: unique symbol = Symbol("datetime");
+
+/**
+ * Dates and times are kept as written, since local dates and times have no
+ * JS equivalent
+ */
+export interface TomlDateTime {
+	[DATETIME]: true;
+	value: string;
+}
+
+export type TomlValue =
+	| string
+	| number
+	| boolean
+	| TomlDateTime
+	| TomlValue[]
+	| TomlTable;
+
+export interface TomlTable {
+	[key: string]: TomlValue;
+}
+
+/**
+ * A [table] or [[array of tables]] header and the key/value lines below it.
+ * The root section holds the lines before the first header.
+ */
+interface TomlSection {
+	path: string[];
+	array: boolean;
+	/** Offset of the header */
+	start: number;
+	/** Offset just past the last key/value line, or the header when there is none */
+	end: number;
+}
+
+/**
+ * Where new keys of a table can be written
+ * - section: below the key/value lines of its [table] header
+ * - dotted: after the last `prefix.key = value` line defining it in a section
+ * - inline: inside an inline table `{ ... }`, with `prefix.key = value`
+ */
+type TableLocation =
+	| { kind: "section"; section: number }
+	| { kind: "dotted"; section: number; prefix: string[]; end: number }
+	| { kind: "inline"; prefix: string[]; end: number; empty: boolean };
+
+/**
+ * Parsed TOML with the locations needed to insert keys into the original
+ * text without touching comments or formatting
+ */
+export interface TomlDocument {
+	text: string;
+	value: TomlTable;
+	sections: TomlSection[];
+	/** Locations of the tables outside arrays of tables, by pathKey() */
+	tables: Map<string, TableLocation>;
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const DATETIME_VALUE =
+	/\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?(?:[Zz]|[+-]\d{2}:\d{2})?|\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?/y;
+const NUMBER_VALUE =
+	/[+-]?(?:inf|nan)|0x[0-9A-Fa-f_]+|0o[0-7_]+|0b[01_]+|[+-]?\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?/y;
+const ESCAPES: Record<string, string> = {
+	b: "\b",
+	t: "\t",
+	n: "\n",
+	f: "\f",
+	r: "\r",
+	e: "\x1b",
+	'"': '"',
+	"\\": "\\",
+};
+
+function pathKey(path: string[]): string {
+	return JSON.stringify(path);
+}
+
+function startsWith(path: string[], prefix: string[]): boolean {
+	return (
+		path.length >= prefix.length &&
+		prefix.every((key, index) => path[index] === key)
+	);
+}
+
+export function isTomlDateTime(value: unknown): value is TomlDateTime {
+	return typeof value === "object" && value !== null && DATETIME in value;
+}
+
+export function isTomlTable(value: unknown): value is TomlTable {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!isTomlDateTime(value)
+	);
+}
+
+function isTableArray(value: unknown): value is TomlTable[] {
+	return Array.isArray(value) && value.length > 0 && value.every(isTomlTable);
+}
+
+function setKey(table: TomlTable, key: string, value: TomlValue): void {
+	// defineProperty so keys like __proto__ stay plain data
+	Object.defineProperty(table, key, {
+		value,
+		enumerable: true,
+		writable: true,
+		configurable: true,
+	});
+}
+
+/**
+ * Parse a TOML document into values and the locations of its tables
+ */
+export function parseTomlDocument(text: string): TomlDocument {
+	// Skip a byte order mark
+	let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+	const root: TomlTable = {};
+	// Tables defined by a header or dotted keys, which cannot be defined again
+	const defined = new WeakSet<object>();
+	// Inline tables and arrays, which cannot be extended
+	const frozen = new WeakSet<object>();
+	const tableArrays = new WeakSet<object>();
+	const sections: TomlSection[] = [
+		{ path: [], array: false, start: pos, end: pos },
+	];
+	const tables = new Map<string, TableLocation>([
+		[pathKey([]), { kind: "section", section: 0 }],
+	]);
+
+	let current = root;
+	let currentPath: string[] = [];
+	// Tables inside arrays of tables have no stable location
+	let tracked = true;
+
+	function fail(message: string, offset = pos): never {
+		const { line, column } = getLineAndColumn(text, offset);
+		throw new Error(`${message} at line ${line}, column ${column}`);
+	}
+
+	function skipWhitespace(): void {
+		while (text[pos] === " " || text[pos] === "\t") {
+			pos++;
+		}
+	}
+
+	function skipComment(): void {
+		if (text[pos] === "#") {
+			const end = text.indexOf("\n", pos);
+			pos = end === -1 ? text.length : end;
+		}
+	}
+
+	function skipNewline(): boolean {
+		if (text[pos] === "\n") {
+			pos++;
+			return true;
+		}
+		if (text.startsWith("\r\n", pos)) {
+			pos += 2;
+			return true;
+		}
+		return false;
+	}
+
+	/** Whitespace, comments and newlines between array items */
+	function skipArrayTrivia(): void {
+		do {
+			skipWhitespace();
+			skipComment();
+		} while (skipNewline());
+	}
+
+	function expectLineEnd(): void {
+		skipWhitespace();
+		skipComment();
+		if (pos < text.length && !skipNewline()) {
+			fail(`Unexpected '${text[pos]}' after value`);
+		}
+	}
+
+	function parseEscape(): string {
+		const char = text[pos + 1];
+		if (char in ESCAPES) {
+			pos += 2;
+			return ESCAPES[char];
+		}
+		const digits = char === "u" ? 4 : char === "U" ? 8 : 0;
+		const hex = text.slice(pos + 2, pos + 2 + digits);
+		if (digits === 0 || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length < digits) {
+			fail("Invalid escape sequence");
+		}
+		const code = Number.parseInt(hex, 16);
+		if (code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+			fail("Invalid unicode escape");
+		}
+		pos += 2 + digits;
+		return String.fromCodePoint(code);
+	}
+
+	function parseString(): string {
+		const quote = text[pos];
+		const multiline = text.startsWith(quote.repeat(3), pos);
+		const start = pos;
+		pos += multiline ? 3 : 1;
+		// A newline right after the opening quotes is not part of the string
+		if (multiline) {
+			skipNewline();
+		}
+
+		let result = "";
+		while (pos < text.length) {
+			const char = text[pos];
+			if (char === quote) {
+				if (!multiline) {
+					pos++;
+					return result;
+				}
+				if (text.startsWith(quote.repeat(3), pos)) {
+					// Up to two quotes may end the content right before the closing ones
+					let count = 3;
+					while (count < 5 && text[pos + count] === quote) {
+						count++;
+					}
+					pos += count;
+					return result + quote.repeat(count - 3);
+				}
+			}
+			if (char === "\n" && !multiline) {
+				fail("Unterminated string", start);
+			}
+			if (char === "\\" && quote === '"') {
+				// A backslash at the end of a line trims the following whitespace
+				const rest = /\\[ \t]*\r?\n/y;
+				rest.lastIndex = pos;
+				if (multiline && rest.test(text)) {
+					pos = rest.lastIndex;
+					while (/[ \t\r\n]/.test(text[pos] ?? "")) {
+						pos++;
+					}
+					continue;
+				}
+				result += parseEscape();
+				continue;
+			}
+			result += char;
+			pos++;
+		}
+		return fail("Unterminated string", start);
+	}
+
+	function parseKey(): string[] {
+		const parts: string[] = [];
+		while (true) {
+			skipWhitespace();
+			const char = text[pos];
+			if (char === '"' || char === "'") {
+				if (text.startsWith(char.repeat(3), pos)) {
+					fail("Keys cannot be multiline strings");
+				}
+				parts.push(parseString());
+			} else {
+				BARE_KEY.lastIndex = pos;
+				const match = BARE_KEY.exec(text);
+				if (!match) {
+					fail(pos < text.length ? `Unexpected '${char}'` : "Expected a key");
+				}
+				parts.push(match[0]);
+				pos = BARE_KEY.lastIndex;
+			}
+			skipWhitespace();
+			if (text[pos] !== ".") {
+				return parts;
+			}
+			pos++;
+		}
+	}
+
+	/**
+	 * Follow dotted key parts from `table`, creating tables as needed.
+	 * `onTable` is called with the number of parts of each table passed.
+	 */
+	function walkDottedKey(
+		table: TomlTable,
+		key: string[],
+		keyStart: number,
+		createFrozen: boolean,
+		onTable?: (depth: number) => void,
+	): TomlTable {
+		let node = table;
+		key.slice(0, -1).forEach((part, index) => {
+			let next = node[part];
+			if (next === undefined) {
+				next = {};
+				setKey(node, part, next);
+				defined.add(next);
+				if (createFrozen) {
+					frozen.add(next);
+				}
+			} else if (!isTomlTable(next) || (frozen.has(next) && !createFrozen)) {
+				fail(
+					`Key '${key.slice(0, index + 1).join(".")}' is already defined`,
+					keyStart,
+				);
+			}
+			node = next;
+			onTable?.(index + 1);
+		});
+		if (Object.hasOwn(node, key[key.length - 1])) {
+			fail(`Duplicate key '${key.join(".")}'`, keyStart);
+		}
+		return node;
+	}
+
+	function parseArray(): TomlValue[] {
+		pos++;
+		const items: TomlValue[] = [];
+		while (true) {
+			skipArrayTrivia();
+			if (text[pos] === "]") {
+				pos++;
+				break;
+			}
+			items.push(parseValue());
+			skipArrayTrivia();
+			if (text[pos] === ",") {
+				pos++;
+			} else if (text[pos] !== "]") {
+				fail("Expected ',' or ']' in array");
+			}
+		}
+		frozen.add(items);
+		return items;
+	}
+
+	function parseInlineTable(path?: string[]): TomlTable {
+		pos++;
+		const table: TomlTable = {};
+		frozen.add(table);
+		const locations: Extract<TableLocation, { kind: "inline" }>[] = [];
+		const register = (prefix: string[]) => {
+			if (path) {
+				const location = {
+					kind: "inline" as const,
+					prefix,
+					end: pos,
+					empty: true,
+				};
+				locations.push(location);
+				tables.set(pathKey([...path, ...prefix]), location);
+			}
+		};
+		register([]);
+
+		skipWhitespace();
+		if (text[pos] === "}") {
+			pos++;
+			return table;
+		}
+		while (true) {
+			const keyStart = pos;
+			const key = parseKey();
+			const node = walkDottedKey(table, key, keyStart, true, (depth) => {
+				if (!tables.has(pathKey([...(path ?? []), ...key.slice(0, depth)]))) {
+					register(key.slice(0, depth));
+				}
+			});
+			if (text[pos] !== "=") {
+				fail("Expected '=' after key");
+			}
+			pos++;
+			skipWhitespace();
+			setKey(
+				node,
+				key[key.length - 1],
+				parseValue(path ? [...path, ...key] : undefined),
+			);
+			// New keys go after the last value
+			for (const location of locations) {
+				location.end = pos;
+				location.empty = false;
+			}
+			skipWhitespace();
+			if (text[pos] === ",") {
+				pos++;
+				skipWhitespace();
+			} else if (text[pos] === "}") {
+				pos++;
+				return table;
+			} else {
+				fail("Expected ',' or '}' in inline table");
+			}
+		}
+	}
+
+	function parseValue(path?: string[]): TomlValue {
+		const char = text[pos];
+		if (char === '"' || char === "'") {
+			return parseString();
+		}
+		if (char === "[") {
+			return parseArray();
+		}
+		if (char === "{") {
+			return parseInlineTable(path);
+		}
+
+		let value: TomlValue | undefined;
+		for (const word of ["true", "false"]) {
+			if (text.startsWith(word, pos)) {
+				value = word === "true";
+				pos += word.length;
+			}
+		}
+		DATETIME_VALUE.lastIndex = pos;
+		NUMBER_VALUE.lastIndex = pos;
+		const datetime = value === undefined && DATETIME_VALUE.exec(text);
+		const number = value === undefined && !datetime && NUMBER_VALUE.exec(text);
+		if (datetime) {
+			value = { [DATETIME]: true, value: datetime[0] };
+			pos = DATETIME_VALUE.lastIndex;
+		} else if (number) {
+			const raw = number[0].replaceAll("_", "");
+			const sign = raw.startsWith("-") ? -1 : 1;
+			value = raw.endsWith("inf")
+				? sign * Number.POSITIVE_INFINITY
+				: raw.endsWith("nan")
+					? Number.NaN
+					: Number(raw);
+			pos = NUMBER_VALUE.lastIndex;
+		}
+
+		// A value runs up to whitespace, a comment or the end of its container
+		if (value === undefined || !/^[ \t\r\n,\]}#]?$/.test(text[pos] ?? "")) {
+			fail(pos < text.length ? `Invalid value` : "Expected a value");
+		}
+		return value;
+	}
+
+	function parseHeader(): void {
+		const start = pos;
+		const array = text[pos + 1] === "[";
+		pos += array ? 2 : 1;
+		const path = parseKey();
+		if (!text.startsWith(array ? "]]" : "]", pos)) {
+			fail(array ? "Expected ']]'" : "Expected ']'");
+		}
+		pos += array ? 2 : 1;
+		expectLineEnd();
+
+		const name = path.join(".");
+		let table = root;
+		tracked = !array;
+		path.slice(0, -1).forEach((key, index) => {
+			let next = table[key];
+			if (next === undefined) {
+				next = {};
+				setKey(table, key, next);
+			} else if (Array.isArray(next) && tableArrays.has(next)) {
+				next = next[next.length - 1];
+				tracked = false;
+			}
+			if (!isTomlTable(next) || frozen.has(next)) {
+				fail(
+					`Key '${path.slice(0, index + 1).join(".")}' is not a table`,
+					start,
+				);
+			}
+			table = next;
+		});
+
+		const last = path[path.length - 1];
+		const existing = table[last];
+		if (array) {
+			let items = existing;
+			if (items === undefined) {
+				items = [];
+				setKey(table, last, items);
+				tableArrays.add(items);
+			} else if (!Array.isArray(items) || !tableArrays.has(items)) {
+				fail(`Key '${name}' is not an array of tables`, start);
+			}
+			current = {};
+			items.push(current);
+		} else {
+			if (existing === undefined) {
+				current = {};
+				setKey(table, last, current);
+			} else if (
+				!isTomlTable(existing) ||
+				defined.has(existing) ||
+				frozen.has(existing)
+			) {
+				fail(`Table [${name}] is defined more than once`, start);
+			} else {
+				current = existing;
+			}
+			defined.add(current);
+		}
+
+		currentPath = path;
+		sections.push({ path, array, start, end: pos });
+		if (tracked) {
+			tables.set(pathKey(path), {
+				kind: "section",
+				section: sections.length - 1,
+			});
+		}
+	}
+
+	function parseKeyValue(): void {
+		const keyStart = pos;
+		const key = parseKey();
+		if (text[pos] !== "=") {
+			fail("Expected '=' after key");
+		}
+		pos++;
+		skipWhitespace();
+
+		const section = sections.length - 1;
+		const dottedTables: string[][] = [];
+		const table = walkDottedKey(current, key, keyStart, false, (depth) => {
+			dottedTables.push(key.slice(0, depth));
+		});
+		setKey(
+			table,
+			key[key.length - 1],
+			parseValue(tracked ? [...currentPath, ...key] : undefined),
+		);
+		expectLineEnd();
+
+		sections[section].end = pos;
+		if (tracked) {
+			for (const prefix of dottedTables) {
+				const location = tables.get(pathKey([...currentPath, ...prefix]));
+				if (!location || location.kind === "dotted") {
+					tables.set(pathKey([...currentPath, ...prefix]), {
+						kind: "dotted",
+						section,
+						prefix,
+						end: pos,
+					});
+				}
+			}
+		}
+	}
+
+	while (pos < text.length) {
+		skipWhitespace();
+		skipComment();
+		if (skipNewline() || pos >= text.length) {
+			continue;
+		}
+		if (text[pos] === "[") {
+			parseHeader();
+		} else {
+			parseKeyValue();
+		}
+	}
+
+	return { text, value: root, sections, tables };
+}
+
+/**
+ * Parse a TOML string into plain values
+ */
+export function parseToml(content: string): TomlTable {
+	return parseTomlDocument(content).value;
+}
+
+function formatTomlString(value: string): string {
+	// JSON escapes are valid TOML, except that DEL must be escaped too
+	return JSON.stringify(value).replace(/\x7f/g, "\\u007F");
+}
+
+function formatTomlKey(path: string[]): string {
+	return path
+		.map((key) => (/^[A-Za-z0-9_-]+$/.test(key) ? key : formatTomlString(key)))
+		.join(".");
+}
+
+/**
+ * Format a value as it appears after `key = `. Floats without a fractional
+ * part are written as integers.
+ */
+export function formatTomlValue(value: TomlValue): string {
+	if (typeof value === "string") {
+		return formatTomlString(value);
+	}
+	if (typeof value === "number") {
+		if (Number.isNaN(value)) {
+			return "nan";
+		}
+		if (!Number.isFinite(value)) {
+			return value > 0 ? "inf" : "-inf";
+		}
+		return String(value);
+	}
+	if (typeof value === "boolean") {
+		return String(value);
+	}
+	if (isTomlDateTime(value)) {
+		return value.value;
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(formatTomlValue).join(", ")}]`;
+	}
+	const entries = Object.entries(value).map(
+		([key, item]) => `${formatTomlKey([key])} = ${formatTomlValue(item)}`,
+	);
+	return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+}
+
+/**
+ * Render a table as blocks of lines: its own key/value lines, then a
+ * [header] block per sub-table and a [[header]] block per array item
+ */
+function renderTomlTable(
+	table: TomlTable,
+	path: string[],
+	newline: string,
+	header: "table" | "array" | "none",
+): string[] {
+	const entries = Object.entries(table);
+	const nested = entries.filter(
+		([, value]) => isTomlTable(value) || isTableArray(value),
+	);
+	const lines = entries
+		.filter(([, value]) => !isTomlTable(value) && !isTableArray(value))
+		.map(
+			([key, value]) =>
+				`${formatTomlKey([key])} = ${formatTomlValue(value)}${newline}`,
+		);
+
+	const blocks: string[] = [];
+	// Tables holding only sub-tables need no header of their own
+	if (header === "array" || lines.length > 0 || nested.length === 0) {
+		const title =
+			header === "none"
+				? ""
+				: header === "array"
+					? `[[${formatTomlKey(path)}]]${newline}`
+					: `[${formatTomlKey(path)}]${newline}`;
+		if (title || lines.length > 0) {
+			blocks.push(title + lines.join(""));
+		}
+	}
+	for (const [key, value] of nested) {
+		if (isTableArray(value)) {
+			for (const item of value) {
+				blocks.push(...renderTomlTable(item, [...path, key], newline, "array"));
+			}
+		} else {
+			blocks.push(
+				...renderTomlTable(
+					value as TomlTable,
+					[...path, key],
+					newline,
+					"table",
+				),
+			);
+		}
+	}
+	return blocks;
+}
+
+/**
+ * Serialize values into a TOML document
+ */
+export function stringifyToml(table: TomlTable): string {
+	return renderTomlTable(table, [], "\n", "none").join("\n");
+}
+
+/**
+ * Offset of the comment lines directly above the line at `offset`, so text
+ * inserted there does not separate a header from its comments
+ */
+function findLeadingComments(text: string, offset: number): number {
+	let start = offset;
+	while (start > 0) {
+		const lineStart = text.lastIndexOf("\n", start - 2) + 1;
+		if (!text.slice(lineStart, start).trim().startsWith("#")) {
+			break;
+		}
+		start = lineStart;
+	}
+	return start;
+}
+
+function collectTomlEdits(
+	source: TomlTable,
+	dest: TomlTable,
+	path: string[],
+	doc: TomlDocument,
+	newline: string,
+	edits: TextEdit[],
+): void {
+	const missing: [string, TomlValue][] = [];
+	for (const [key, value] of Object.entries(source)) {
+		const existing = Object.hasOwn(dest, key) ? dest[key] : undefined;
+		if (existing === undefined) {
+			missing.push([key, value]);
+		} else if (isTomlTable(value) && isTomlTable(existing)) {
+			collectTomlEdits(value, existing, [...path, key], doc, newline, edits);
+		}
+	}
+	if (missing.length === 0) {
+		return;
+	}
+
+	const { text, sections } = doc;
+	const location = doc.tables.get(pathKey(path));
+	const lineBreak = (offset: number) =>
+		offset > 0 && text[offset - 1] !== "\n" ? newline : "";
+
+	if (location?.kind === "inline") {
+		const entries = missing.map(
+			([key, value]) =>
+				`${formatTomlKey([...location.prefix, key])} = ${formatTomlValue(value)}`,
+		);
+		edits.push({
+			offset: location.end,
+			text: location.empty
+				? ` ${entries.join(", ")} `
+				: `, ${entries.join(", ")}`,
+		});
+		return;
+	}
+
+	const values = missing.filter(
+		([, value]) => !isTomlTable(value) && !isTableArray(value),
+	);
+	const tables = missing.filter(
+		([, value]) => isTomlTable(value) || isTableArray(value),
+	);
+
+	if (values.length > 0) {
+		const prefix = location?.kind === "dotted" ? location.prefix : [];
+		const lines = values
+			.map(
+				([key, value]) =>
+					`${formatTomlKey([...prefix, key])} = ${formatTomlValue(value)}${newline}`,
+			)
+			.join("");
+
+		if (!location) {
+			// A table only defined through its sub-tables' headers gets its own
+			// header, right above the first of them
+			const first = sections.find((section) => startsWith(section.path, path));
+			const offset = findLeadingComments(text, first?.start ?? text.length);
+			edits.push({
+				offset,
+				text: `${lineBreak(offset)}[${formatTomlKey(path)}]${newline}${lines}${newline}`,
+			});
+		} else if (location.kind === "dotted") {
+			edits.push({
+				offset: location.end,
+				text: lineBreak(location.end) + lines,
+			});
+		} else {
+			const section = sections[location.section];
+			const isEmptyRoot =
+				location.section === 0 && section.end === section.start;
+			if (isEmptyRoot && sections.length > 1) {
+				// Keys before the first header, keeping a blank line above it
+				const offset = findLeadingComments(text, sections[1].start);
+				edits.push({ offset, text: lines + newline });
+			} else {
+				edits.push({
+					offset: section.end,
+					text: lineBreak(section.end) + lines,
+				});
+			}
+		}
+	}
+
+	if (tables.length > 0) {
+		// New sub-tables go after the last section inside this table
+		let offset = path.length === 0 ? text.length : -1;
+		for (const [index, section] of sections.entries()) {
+			if (
+				path.length > 0 &&
+				(startsWith(section.path, path) ||
+					(location?.kind === "dotted" && location.section === index))
+			) {
+				offset = Math.max(offset, section.end);
+			}
+		}
+		if (offset === -1) {
+			offset = text.length;
+		}
+
+		const blocks = tables.flatMap(([key, value]) =>
+			isTableArray(value)
+				? value.flatMap((item) =>
+						renderTomlTable(item, [...path, key], newline, "array"),
+					)
+				: renderTomlTable(value as TomlTable, [...path, key], newline, "table"),
+		);
+		edits.push({
+			offset,
+			text: lineBreak(offset) + blocks.map((block) => newline + block).join(""),
+		});
+	}
+}
+
+/**
+ * Merges the source TOML values into the dest TOML text by inserting only the
+ * keys and tables dest is missing. Existing comments, ordering and formatting
+ * in dest are left untouched. Assumes findJsonConflict has returned null.
+ */
+export function mergeToml(source: TomlTable, destText: string): string {
+	const doc = parseTomlDocument(destText);
+	const edits: TextEdit[] = [];
+	const newline = destText.includes("\r\n") ? "\r\n" : "\n";
+	collectTomlEdits(source, doc.value, [], doc, newline, edits);
+	return applyEdits(destText, edits);
+}
@@ -0,0 +1,62 @@
+import { readFileSync } from "node:fs";
+import { FILE_HEADERS_ONLY, formatPatch, structuredPatch } from "diff";
+import { type FileDiff, hasDifferences } from "./diff.ts";
+
+/**
+ * The repo and installed contents a diff was computed from
+ */
+function getDiffContents(diff: FileDiff): { repo: string; installed: string } {
+	// Files on one side only have no line changes
+	if (diff.onlyInRepo) {
+		return { repo: readFileSync(diff.repoPath, "utf-8"), installed: "" };
+	}
+	if (diff.onlyInSystem) {
+		return { repo: "", installed: readFileSync(diff.installedPath, "utf-8") };
+	}
+
+	let repo = "";
+	let installed = "";
+	for (const change of diff.changes) {
+		if (!change.added) {
+			repo += change.value;
+		}
+		if (!change.removed) {
+			installed += change.value;
+		}
+	}
+	return { repo, installed };
+}
+
+/**
+ * Render diffs as a unified diff, from the repo copy (`a/`) to the installed
+ * one (`b/`). Both sides are named after the repo file, so the patch applies
+ * to the repo with `git apply` or `patch -p1`.
+ */
+export function renderUnifiedDiff(diffs: FileDiff[], context = 3): string {
+	let output = "";
+
+	for (const diff of diffs) {
+		if (!hasDifferences(diff)) {
+			continue;
+		}
+
+		const path = diff.sourcePath ?? diff.repoPath;
+		const { repo, installed } = getDiffContents(diff);
+		const patch = structuredPatch(
+			diff.onlyInSystem ? "/dev/null" : `a/${path}`,
+			diff.onlyInRepo ? "/dev/null" : `b/${path}`,
+			repo,
+			installed,
+			undefined,
+			undefined,
+			{ context },
+		);
+		// The installed side of a block is numbered within the whole file
+		for (const hunk of patch.hunks) {
+			hunk.newStart += diff.lineOffset ?? 0;
+		}
+		output += formatPatch(patch, FILE_HEADERS_ONLY);
+	}
+
+	return output;
+}
@@ -0,0 +1,62 @@
+import { spawnSync } from "node:child_process";
+
+/**
+ * Find the version number in the output of a version command, in the formats
+ * tools print it: "tmux 3.3a", "helix 24.07 (2c5a6d6c)", "0.44.1 (debian)",
+ * "starship 1.17.1". Returns undefined when there is none (e.g. "tmux master").
+ */
+export function parseVersion(output: string): string | undefined {
+	return output.match(/\d+(?:\.\d+)+[a-z]?|\d+[a-z]?(?=\s|$)/)?.[0];
+}
+
+function splitVersion(version: string): { parts: number[]; suffix: string } {
+	const [, numbers, suffix] = version.match(/^([\d.]+)([a-z]?)$/) ?? [
+		"",
+		version,
+		"",
+	];
+	return {
+		parts: numbers
+			.split(".")
+			.filter((part) => part !== "")
+			.map(Number),
+		suffix,
+	};
+}
+
+/**
+ * Compare two versions part by part, missing parts counting as 0 and a letter
+ * suffix as a later release (3.3 < 3.3a < 3.4). Returns a negative number,
+ * 0 or a positive number like a sort comparator.
+ */
+export function compareVersions(a: string, b: string): number {
+	const left = splitVersion(a);
+	const right = splitVersion(b);
+	const length = Math.max(left.parts.length, right.parts.length);
+
+	for (let index = 0; index < length; index++) {
+		const difference = (left.parts[index] ?? 0) - (right.parts[index] ?? 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+	return left.suffix.localeCompare(right.suffix);
+}
+
+/**
+ * Run a version command through the shell and parse its output (stdout, or
+ * stderr for tools that print their version there). Returns undefined when
+ * the command fails or prints no version.
+ */
+export function getCommandVersion(command: string): string | undefined {
+	const result = spawnSync(command, {
+		shell: true,
+		encoding: "utf-8",
+		stdio: ["ignore", "pipe", "pipe"],
+		timeout: 10_000,
+	});
+	if (result.error || result.status !== 0) {
+		return undefined;
+	}
+	return parseVersion(`${result.stdout}\n${result.stderr}`);
+}